@@ -35,8 +35,15 @@ const BOT_MENTION = '@ask-bonk'
 const BOT_COMMAND = '/bonk'
 
 type ProviderChoice = 'opencode-zen' | 'anthropic' | 'openai' | 'other'
-type WorkflowPreset = 'bonk' | 'scheduled' | 'triage' | 'review' | 'custom'
-type EventTrigger = 'issue_comment' | 'pull_request_review_comment' | 'issues' | 'pull_request' | 'schedule' | 'workflow_dispatch'
+type WorkflowPreset = 'bonk' | 'scheduled' | 'triage' | 'review' | 'auto-review' | 'custom'
+type EventTrigger =
+	| 'issue_comment'
+	| 'pull_request_review_comment'
+	| 'pull_request_review'
+	| 'issues'
+	| 'pull_request'
+	| 'schedule'
+	| 'workflow_dispatch'
 
 interface ProviderConfig {
 	keyName: string
@@ -323,6 +330,7 @@ async function runWorkflow(repo?: string, providerConfig?: ProviderConfig, canWr
 				{ value: 'scheduled', label: 'scheduled', hint: 'run on a schedule (e.g. weekly updates)' },
 				{ value: 'triage', label: 'triage', hint: 'run on new issues' },
 				{ value: 'review', label: 'review', hint: 'on-demand PR review via /review' },
+				{ value: 'auto-review', label: 'auto-review', hint: 'review every PR push automatically' },
 				{ value: 'custom', label: 'make my own', hint: 'custom event triggers' },
 			],
 		})) as WorkflowPreset
@@ -356,10 +364,12 @@ async function runWorkflow(repo?: string, providerConfig?: ProviderConfig, canWr
 				.map((e) => {
 					if (e === 'issue_comment' || e === 'pull_request_review_comment') {
 						return `  ${e}:\n    types: [created]`
+					} else if (e === 'pull_request_review') {
+						return `  pull_request_review:\n    types: [submitted]`
 					} else if (e === 'issues') {
 						return `  issues:\n    types: [opened]`
 					} else if (e === 'pull_request') {
-						return `  pull_request:\n    types: [opened]`
+						return `  pull_request:\n    types: [opened, synchronize, ready_for_review, reopened]`
 					} else if (e === 'schedule') {
 						return `  schedule:\n    - cron: "${config.cron || '0 0 * * 1'}"`
 					} else if (e === 'workflow_dispatch') {
@@ -462,7 +472,7 @@ async function buildPresetWorkflow(preset: WorkflowPreset, providerConfig?: Prov
 		bonk: {
 			name: 'Bonk',
 			filename: 'bonk.yml',
-			events: ['issue_comment', 'pull_request_review_comment'],
+			events: ['issue_comment', 'pull_request_review_comment', 'pull_request_review'],
 			mentions: `${BOT_COMMAND},${BOT_MENTION}`,
 			permissions: 'write',
 		},
@@ -486,6 +496,12 @@ async function buildPresetWorkflow(preset: WorkflowPreset, providerConfig?: Prov
 			mentions: '/review',
 			permissions: 'write',
 		},
+		'auto-review': {
+			name: 'Auto Review',
+			filename: 'bonk-auto-review.yml',
+			events: ['pull_request'],
+			permissions: 'read',
+		},
 	}
 
 	const presetDefaults = defaults[preset]
@@ -573,8 +589,9 @@ async function buildCustomWorkflow(providerConfig?: ProviderConfig): Promise<Wor
 		options: [
 			{ value: 'issue_comment', label: 'Issue comment', hint: 'on new issue comments' },
 			{ value: 'pull_request_review_comment', label: 'PR review comment', hint: 'on PR review comments' },
+			{ value: 'pull_request_review', label: 'PR review', hint: 'on submitted PR reviews' },
 			{ value: 'issues', label: 'New issues', hint: 'on issue creation' },
-			{ value: 'pull_request', label: 'New PRs', hint: 'on PR creation' },
+			{ value: 'pull_request', label: 'PR updates', hint: 'on PR open, push and ready for review' },
 			{ value: 'schedule', label: 'Schedule', hint: 'run on a cron schedule' },
 			{ value: 'workflow_dispatch', label: 'Manual trigger', hint: 'allow manual runs' },
 		],
@@ -587,7 +604,8 @@ async function buildCustomWorkflow(providerConfig?: ProviderConfig): Promise<Wor
 	}
 
 	let mentions: string | undefined
-	const hasCommentTriggers = events.includes('issue_comment') || events.includes('pull_request_review_comment')
+	const hasCommentTriggers =
+		events.includes('issue_comment') || events.includes('pull_request_review_comment') || events.includes('pull_request_review')
 
 	if (hasCommentTriggers) {
 		const mentionsInput = await p.text({
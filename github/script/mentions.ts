@@ -0,0 +1,62 @@
+// Decide whether the triggering comment or review is addressed to Bonk
+// Called by the GitHub Action before anything else runs
+
+import { readFileSync } from 'fs';
+import type { PullRequestEvent } from '@octokit/webhooks-types';
+import { core } from './context';
+import { commandPrompt, parseBonkCommand, parseMentions, parsePullRequestEvent } from '../../src/events';
+
+function main() {
+	const eventName = process.env.EVENT_NAME || '';
+	let body: string;
+
+	switch (eventName) {
+		case 'issue_comment':
+		case 'pull_request_review_comment':
+			body = process.env.COMMENT_BODY || '';
+			break;
+		case 'pull_request_review':
+			body = process.env.REVIEW_BODY || '';
+			break;
+		case 'issues':
+		case 'workflow_dispatch':
+			core.setOutput('skip', 'false');
+			return;
+		case 'pull_request': {
+			// Automatic reviews need no mention, but skip drafts and actions that don't bring new code to review
+			const payload = JSON.parse(readFileSync(process.env.GITHUB_EVENT_PATH || '', 'utf8')) as PullRequestEvent;
+			const parsed = parsePullRequestEvent(payload);
+			core.info(parsed ? `Reviewing PR #${parsed.context.issueNumber} (${parsed.action})` : 'Pull request event not reviewable, skipping');
+			core.setOutput('skip', parsed ? 'false' : 'true');
+			return;
+		}
+		default:
+			core.info(`Unsupported event type: ${eventName}`);
+			core.setOutput('skip', 'true');
+			return;
+	}
+
+	// Mentions inside code blocks, inline code and quoted replies are ignored
+	const command = parseBonkCommand(body, parseMentions(process.env.MENTIONS));
+	if (!command) {
+		core.info('No matching mention found in comment');
+		core.setOutput('skip', 'true');
+		return;
+	}
+
+	// `/bonk cancel` is handled by the Bonk Worker, which cancels the in-flight run. track.ts reports these
+	// mentions to it, so it recognises the same cancel commands.
+	if (command.subcommand === 'cancel') {
+		core.info('Cancel command, skipping');
+		core.setOutput('skip', 'true');
+		return;
+	}
+
+	core.info(`Found mention: ${command.mention}${command.subcommand ? ` ${command.subcommand}` : ''}`);
+	core.setOutput('skip', 'false');
+	core.setOutput('subcommand', command.subcommand ?? '');
+	// Subcommands like `review` run a prompt built from their arguments instead of the comment text
+	core.setOutput('prompt', commandPrompt(command) ?? '');
+}
+
+main();
@@ -7,6 +7,7 @@ interface SetupResponse {
 	exists: boolean;
 	prUrl?: string;
 	error?: string;
+	configErrors?: string[];
 }
 
 async function main() {
@@ -45,6 +46,13 @@ async function main() {
 		}),
 	});
 
+	// The track step reports rate limiting to the user, so only the setup check is skipped here
+	if (response.status === 429) {
+		core.warning('Rate limited by Bonk, skipping workflow check');
+		core.setOutput('skip', 'false');
+		return;
+	}
+
 	if (!response.ok) {
 		const text = await response.text();
 		core.setFailed(`Setup request failed: ${text}`);
@@ -58,6 +66,11 @@ async function main() {
 		return;
 	}
 
+	// An invalid .github/bonk.yml is ignored rather than failing every run
+	for (const configError of data.configErrors ?? []) {
+		core.warning(`Ignoring invalid Bonk config - ${configError}`);
+	}
+
 	if (data.exists) {
 		core.info('Workflow file exists');
 		core.setOutput('skip', 'false');
@@ -1,7 +1,9 @@
 // Start tracking a workflow run and create reaction
-// Called by the GitHub Action before running OpenCode
+// Called by the GitHub Action before running OpenCode. Sets the `skip` output when Bonk's
+// concurrency policy rejects the run, the actor is rate limited, or it gives up waiting in the queue.
 
 import { getContext, getOidcToken, getApiBaseUrl, core } from './context';
+import { parseMentions } from '../../src/events';
 
 interface TrackPayload {
 	owner: string;
@@ -12,12 +14,52 @@ interface TrackPayload {
 	created_at: string;
 	comment_id?: number;
 	review_comment_id?: number;
+	review_id?: number;
 	issue_id?: number;
+	timeout_minutes?: number;
+	poll_interval_seconds?: number;
+	max_retries?: number;
+	concurrency?: string;
+	requeue?: boolean;
+	mentions?: string[];
 }
 
 interface TrackResponse {
 	ok?: boolean;
 	error?: string;
+	message?: string;
+	decision?: 'started' | 'rejected' | 'queued';
+	activeRunId?: number;
+	// Why a run was queued without an active run to wait for, e.g. the org-wide concurrency cap
+	reason?: string;
+	cancelledRunIds?: number[];
+}
+
+// Queued runs re-send the track request until the issue's active run finishes
+const QUEUE_POLL_INTERVAL_MS = 30_000;
+const QUEUE_TIMEOUT_MS = 30 * 60 * 1000;
+
+// Uses the app token from the OIDC exchange step. Best effort: the run is skipped either way.
+async function postComment(owner: string, repo: string, issueNumber: number, body: string): Promise<void> {
+	const token = process.env.GH_TOKEN;
+	if (!token) {
+		core.warning('GH_TOKEN not set, cannot post comment');
+		return;
+	}
+
+	const apiUrl = process.env.GITHUB_API_URL || 'https://api.github.com';
+	const response = await fetch(`${apiUrl}/repos/${owner}/${repo}/issues/${issueNumber}/comments`, {
+		method: 'POST',
+		headers: {
+			Authorization: `Bearer ${token}`,
+			Accept: 'application/vnd.github+json',
+			'Content-Type': 'application/json',
+		},
+		body: JSON.stringify({ body }),
+	});
+	if (!response.ok) {
+		core.warning(`Failed to post comment: ${response.status} ${await response.text()}`);
+	}
 }
 
 async function main() {
@@ -49,6 +91,25 @@ async function main() {
 		created_at: context.comment?.createdAt || new Date().toISOString(),
 	};
 
+	// Optional per-repo tracking overrides from the action inputs
+	const timeoutMinutes = process.env.TIMEOUT_MINUTES;
+	if (timeoutMinutes) {
+		payload.timeout_minutes = parseInt(timeoutMinutes, 10);
+	}
+	const pollIntervalSeconds = process.env.POLL_INTERVAL_SECONDS;
+	if (pollIntervalSeconds) {
+		payload.poll_interval_seconds = parseInt(pollIntervalSeconds, 10);
+	}
+	const maxRetries = process.env.MAX_RETRIES;
+	if (maxRetries) {
+		payload.max_retries = parseInt(maxRetries, 10);
+	}
+	if (process.env.CONCURRENCY) {
+		payload.concurrency = process.env.CONCURRENCY;
+	}
+	// Lets the Worker recognise `cancel` with this workflow's mentions, as mentions.ts does
+	payload.mentions = parseMentions(process.env.MENTIONS);
+
 	// Add reaction target based on event type
 	switch (context.eventName) {
 		case 'issue_comment':
@@ -61,6 +122,11 @@ async function main() {
 				payload.review_comment_id = context.comment.id;
 			}
 			break;
+		case 'pull_request_review':
+			if (process.env.REVIEW_ID) {
+				payload.review_id = parseInt(process.env.REVIEW_ID, 10);
+			}
+			break;
 		case 'issues':
 			if (context.issue?.id) {
 				payload.issue_id = context.issue.id;
@@ -68,29 +134,79 @@ async function main() {
 			break;
 	}
 
-	const response = await fetch(`${apiBase}/api/github/track`, {
-		method: 'POST',
-		headers: {
-			Authorization: `Bearer ${oidcToken}`,
-			'Content-Type': 'application/json',
-		},
-		body: JSON.stringify(payload),
-	});
+	const queuedAt = Date.now();
+	for (let attempt = 0; ; attempt++) {
+		// OIDC tokens are short-lived, so fetch a fresh one for each attempt while queued
+		if (attempt > 0) {
+			oidcToken = await getOidcToken();
+			payload.requeue = true;
+		}
 
-	if (!response.ok) {
-		const text = await response.text();
-		core.setFailed(`Failed to track Bonk run: ${text}`);
-		return;
-	}
+		const response = await fetch(`${apiBase}/api/github/track`, {
+			method: 'POST',
+			headers: {
+				Authorization: `Bearer ${oidcToken}`,
+				'Content-Type': 'application/json',
+			},
+			body: JSON.stringify(payload),
+		});
 
-	const data = (await response.json()) as TrackResponse;
+		if (response.status === 429) {
+			const data = (await response.json().catch(() => ({}))) as TrackResponse;
+			if (data.error === 'rate_limited') {
+				core.warning(data.message || 'Rate limited by Bonk, skipping');
+				const mention = context.actor ? `@${context.actor} ` : '';
+				await postComment(
+					owner,
+					repo,
+					payload.issue_number,
+					`${mention}Bonk has received a lot of requests from you on this repository in the last minute, so it's skipping this one. Please wait a minute and try again.`,
+				);
+				core.setOutput('skip', 'true');
+				return;
+			}
+		}
 
-	if (data.error) {
-		core.setFailed(`Track failed: ${data.error}`);
-		return;
-	}
+		if (!response.ok) {
+			const text = await response.text();
+			core.setFailed(`Failed to track Bonk run: ${text}`);
+			return;
+		}
+
+		const data = (await response.json()) as TrackResponse;
+
+		if (data.error) {
+			core.setFailed(`Track failed: ${data.error}`);
+			return;
+		}
+
+		if (data.decision === 'rejected') {
+			core.info(`Run ${data.activeRunId} is already active for this issue, skipping`);
+			core.setOutput('skip', 'true');
+			return;
+		}
 
-	core.info(`Successfully started tracking run ${context.runId}`);
+		if (data.decision !== 'queued') {
+			if (data.cancelledRunIds?.length) {
+				core.info(`Cancelled older runs: ${data.cancelledRunIds.join(', ')}`);
+			}
+			core.info(`Successfully started tracking run ${context.runId}`);
+			core.setOutput('skip', 'false');
+			return;
+		}
+
+		// Runs held back by the org-wide cap aren't waiting on one particular run
+		const waitingFor =
+			data.activeRunId !== undefined ? `run ${data.activeRunId} to finish` : `a free slot (${data.reason ?? 'org limit reached'})`;
+		if (Date.now() - queuedAt > QUEUE_TIMEOUT_MS) {
+			core.warning(`Gave up waiting for ${waitingFor}, skipping`);
+			core.setOutput('skip', 'true');
+			return;
+		}
+
+		core.info(`Waiting for ${waitingFor} before starting`);
+		await new Promise((resolve) => setTimeout(resolve, QUEUE_POLL_INTERVAL_MS));
+	}
 }
 
 main().catch((error) => {
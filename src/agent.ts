@@ -1,27 +1,232 @@
-import { Agent } from 'agents';
-import type { Env } from './types';
-import { createOctokit, createComment, getWorkflowRunStatus } from './github';
+import { Agent, getAgentByName, type Schedule } from 'agents';
+import type { AskEvent, AskRequest, Env, RepoConfig } from './types';
+import type { Octokit } from '@octokit/rest';
+import { emitMetric } from './metrics';
+import {
+	createOctokit,
+	createComment,
+	updateComment,
+	getWorkflowRunStatus,
+	cancelWorkflowRun,
+	rerunFailedJobs,
+	getFailedJobLog,
+	diagnoseJobLog,
+	isTransientFailure,
+} from './github';
+import type { JobLogDiagnosis } from './github';
+import { defaultRepoConfig, getRepoConfig, mergeRunLimits } from './config';
+import { startAsk } from './sandbox';
 
 export interface CheckStatusPayload {
 	runId: number;
 	runUrl: string;
 	issueNumber: number;
 	createdAt: number;
+	// Progress comment that is edited in place until the run finishes
+	statusCommentId?: number;
+	// Per-run overrides from the workflow; runs tracked before these existed fall back to the defaults
+	timeoutMs?: number;
+	pollIntervalSeconds?: number;
+	maxRetries?: number;
+	// 1-based attempt currently running, and the outcome of each earlier attempt
+	attempt?: number;
+	attempts?: RunAttempt[];
+	// Set between a failed attempt and the re-run request, so polls don't finalize the run
+	retryPending?: boolean;
+}
+
+export interface RunAttempt {
+	attempt: number;
+	conclusion: string;
+	endedAt: number;
+}
+
+// Scheduled after a failure comment was posted before the job log could be downloaded
+export interface AnnotateFailurePayload {
+	run: CheckStatusPayload;
+	commentId: number;
+	endedAt: number;
+	attempt: number;
+}
+
+// Optional per-repo overrides passed by the action in the track request
+export interface RunLimits {
+	timeoutMs?: number;
+	pollIntervalSeconds?: number;
+	// Re-run failed jobs up to this many times before reporting failure. 0 disables retries.
+	maxRetries?: number;
+	// What to do when the issue already has an active run
+	concurrency?: ConcurrencyPolicy;
+}
+
+// reject: don't start the new run. cancel: cancel the older run and start the new one.
+// queue: hold the new run until the older one finalizes.
+export type ConcurrencyPolicy = 'reject' | 'cancel' | 'queue';
+
+// Returned to the action so it knows whether to run OpenCode
+export interface TrackDecision {
+	decision: 'started' | 'rejected' | 'queued';
+	// The run that blocked or was replaced by this one
+	activeRunId?: number;
+	// Why the run is waiting, when it isn't blocked by a run on the same issue
+	reason?: string;
+	cancelledRunIds?: number[];
+}
+
+// A run waiting for the issue's active run to finish. The action re-sends the track request until it starts.
+export interface QueuedRun {
+	runId: number;
+	runUrl: string;
+	issueNumber: number;
+	queuedAt: number;
+	statusCommentId?: number;
+}
+
+// Who started a run and from which event - used for run history
+export interface RunOrigin {
+	actor: string;
+	triggerEvent: string;
+}
+
+// A run as persisted in the run_history table. endedAt/conclusion are null while the run is in flight.
+export interface RunHistoryEntry {
+	runId: number;
+	runUrl: string;
+	issueNumber: number;
+	actor: string;
+	triggerEvent: string;
+	startedAt: number;
+	endedAt: number | null;
+	conclusion: string | null;
+	failureCommentPosted: boolean;
+	attempts: number;
+}
+
+// Filters for getRunHistory. Times are Unix timestamps in milliseconds.
+export interface RunHistoryQuery {
+	issueNumber?: number;
+	// A run conclusion (e.g. 'success', 'failure', 'timeout') or 'in_progress'
+	status?: string;
+	since?: number;
+	until?: number;
+	cursor?: string;
+	limit?: number;
+}
+
+export interface RunHistoryPage {
+	runs: RunHistoryEntry[];
+	nextCursor: string | null;
+}
+
+interface RunHistoryRow {
+	run_id: number;
+	run_url: string;
+	issue_number: number;
+	actor: string;
+	trigger_event: string;
+	started_at: number;
+	ended_at: number | null;
+	conclusion: string | null;
+	failure_comment_posted: number;
+	attempts: number;
 }
 
 interface RepoAgentState {
 	installationId: number;
 	// Active workflow runs being tracked, keyed by run ID
 	activeRuns: Record<number, CheckStatusPayload>;
+	// Runs held back by the 'queue' concurrency policy, keyed by run ID. Optional for agents created before it existed.
+	queuedRuns?: Record<number, QueuedRun>;
+	// Trigger phrases reported by the repo's workflows, which may differ from bonk.yml's (e.g. a `/review` workflow)
+	workflowMentions?: string[];
 }
 
 // Poll every 5 minutes as a safety net (action calls finalizeRun on completion)
 const POLL_INTERVAL_SECONDS = 300;
 const MAX_TRACKING_TIME_MS = 30 * 60 * 1000;
+const DEFAULT_HISTORY_LIMIT = 50;
+// Backoff before re-running failed jobs: 60s, 120s, 240s, ...
+const RETRY_BASE_DELAY_SECONDS = 60;
+// Reconciliation sweep for runs whose poll alarm or finalize call went missing
+const SWEEP_INTERVAL_SECONDS = 15 * 60;
+// Job logs only become downloadable once the job completes, which can lag the finalize call
+const LOG_FETCH_DELAY_SECONDS = 60;
+const LOG_FETCH_MAX_ATTEMPTS = 3;
+
+// Result of checking a tracked run once: 'pending' and 'error' leave it tracked, the rest resolve it
+type RunOutcome = 'pending' | 'error' | 'retrying' | 'finalized' | 'timeout';
+
+function formatElapsed(ms: number): string {
+	const totalSeconds = Math.max(0, Math.round(ms / 1000));
+	const minutes = Math.floor(totalSeconds / 60);
+	const seconds = totalSeconds % 60;
+	return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+}
+
+function formatProgressComment(phase: 'queued' | 'running', elapsedMs: number, runUrl: string): string {
+	const label = phase === 'queued' ? 'Bonk is queued' : 'Bonk is working on this';
+	return `${label} (${phase}, ${formatElapsed(elapsedMs)} elapsed).\n\n[View workflow run](${runUrl})`;
+}
+
+// Failure details pulled from the failed job's log
+interface FailureDiagnosis extends JobLogDiagnosis {
+	jobName: string;
+}
+
+function formatFailureComment(
+	run: CheckStatusPayload,
+	conclusion: string | null,
+	elapsedMs: number,
+	diagnosis: FailureDiagnosis | null,
+): string {
+	let statusMessage: string;
+	if (conclusion === 'failure' && diagnosis) {
+		const phase = diagnosis.phase ? ` during ${diagnosis.phase}` : '';
+		const classification = diagnosis.classification ? `: ${diagnosis.classification}` : '';
+		statusMessage = `Bonk workflow failed${phase}${classification}.`;
+	} else {
+		statusMessage =
+			conclusion === 'timeout'
+				? 'Bonk workflow timed out.'
+				: conclusion === 'failure'
+					? 'Bonk workflow failed. Check the logs for details.'
+					: conclusion === 'cancelled'
+						? 'Bonk workflow was cancelled.'
+						: `Bonk workflow finished with status: ${conclusion ?? 'unknown'}`;
+	}
+
+	const attempts = run.attempt ?? 1;
+	const attemptNote = attempts > 1 ? ` Gave up after ${attempts} attempts.` : '';
+	const sections = [`${statusMessage}${attemptNote}`];
+	if (diagnosis?.hint) {
+		sections.push(diagnosis.hint);
+	}
+	if (diagnosis && diagnosis.excerpt.length > 0) {
+		// Stray fences in the log would close the code block early
+		const excerpt = diagnosis.excerpt.join('\n').replace(/```/g, "'''");
+		sections.push(`<details>\n<summary>Log excerpt (${diagnosis.jobName})</summary>\n\n\`\`\`text\n${excerpt}\n\`\`\`\n\n</details>`);
+	}
+	sections.push(`Ran for ${formatElapsed(elapsedMs)}. [View workflow run](${run.runUrl})`);
+	return sections.join('\n\n');
+}
+
+// Cursors are opaque to callers; they encode the (started_at, run_id) sort key of the last row returned
+function encodeHistoryCursor(startedAt: number, runId: number): string {
+	return btoa(`${startedAt}:${runId}`);
+}
+
+export function decodeHistoryCursor(cursor: string): { startedAt: number; runId: number } | null {
+	try {
+		const [startedAt, runId] = atob(cursor).split(':').map(Number);
+		return Number.isFinite(startedAt) && Number.isFinite(runId) ? { startedAt, runId } : null;
+	} catch {
+		return null;
+	}
+}
 
 // Tracks workflow runs per repo. ID format: "{owner}/{repo}"
 export class RepoAgent extends Agent<Env, RepoAgentState> {
-	initialState: RepoAgentState = { installationId: 0, activeRuns: {} };
+	initialState: RepoAgentState = { installationId: 0, activeRuns: {}, queuedRuns: {} };
 
 	private get owner(): string {
 		return this.name.split('/')[0] ?? '';
@@ -31,12 +236,89 @@ export class RepoAgent extends Agent<Env, RepoAgentState> {
 		return this.name.split('/')[1] ?? '';
 	}
 
+	async onStart(): Promise<void> {
+		this.ensureHistoryTable();
+
+		// Alarms can be dropped across redeploys; re-arm the sweep whenever the agent wakes with runs still tracked
+		await this.ensureSweep();
+	}
+
+	// activeRuns only holds in-flight runs; finished runs are kept in SQLite so they survive finalization.
+	// The SDK runs due alarms before onStart when the agent wakes, so every query makes sure the table exists.
+	private ensureHistoryTable(): void {
+		this.sql`CREATE TABLE IF NOT EXISTS run_history (
+			run_id INTEGER PRIMARY KEY,
+			run_url TEXT NOT NULL,
+			issue_number INTEGER NOT NULL,
+			actor TEXT NOT NULL,
+			trigger_event TEXT NOT NULL,
+			started_at INTEGER NOT NULL,
+			ended_at INTEGER,
+			conclusion TEXT,
+			failure_comment_posted INTEGER NOT NULL DEFAULT 0,
+			attempts INTEGER NOT NULL DEFAULT 1
+		)`;
+		this.sql`CREATE INDEX IF NOT EXISTS run_history_started_at ON run_history (started_at)`;
+	}
+
 	async setInstallationId(id: number): Promise<void> {
 		this.setState({ ...this.state, installationId: id });
 	}
 
-	async trackRun(runId: number, runUrl: string, issueNumber: number): Promise<void> {
+	async trackRun(runId: number, runUrl: string, issueNumber: number, origin: RunOrigin, limits: RunLimits = {}): Promise<TrackDecision> {
 		const logPrefix = `[${this.owner}/${this.repo}]`;
+
+		// A re-run we requested calls track again from the new attempt. Keep the existing entry (progress
+		// comment, attempt history, history row) and restart the timeout for the new attempt.
+		// retryWorkflowRun has already scheduled polling for it.
+		const existing = this.state.activeRuns[runId];
+		if (existing) {
+			console.info(`${logPrefix} Run ${runId} re-tracked for attempt ${existing.attempt ?? 1}`);
+			const activeRuns = { ...this.state.activeRuns, [runId]: { ...existing, createdAt: Date.now(), retryPending: false } };
+			this.setState({ ...this.state, activeRuns });
+			return { decision: 'started' };
+		}
+
+		// Limits the workflow passes explicitly win over the repo config
+		const merged = mergeRunLimits(limits, await this.loadConfig());
+
+		// One active run per issue: concurrent runs race to push to the same branch
+		const blocking = Object.values(this.state.activeRuns).find((run) => run.issueNumber === issueNumber);
+		const policy = merged.concurrency ?? 'reject';
+		let cancelledRunIds: number[] | undefined;
+		if (blocking && policy === 'reject') {
+			return this.rejectRun(runId, runUrl, issueNumber, origin, blocking);
+		}
+		if (blocking && policy === 'queue') {
+			return this.queueRun(runId, runUrl, issueNumber, blocking);
+		}
+		if (blocking && policy === 'cancel') {
+			const cancelled = await this.cancelRunsForIssue(issueNumber, `in favour of [a newer run](${runUrl})`);
+			cancelledRunIds = cancelled.map((run) => run.runId);
+		}
+		// 'queue' also serves runs in arrival order once the active run has finished
+		const queuedRuns = this.state.queuedRuns ?? {};
+		const queued = queuedRuns[runId];
+		// Entries older than the queue TTL belong to actions that gave up without finalizing
+		const aheadInQueue = Object.values(queuedRuns).find(
+			(run) =>
+				run.issueNumber === issueNumber && run.queuedAt < (queued?.queuedAt ?? Date.now()) && Date.now() - run.queuedAt < MAX_TRACKING_TIME_MS,
+		);
+		if (policy === 'queue' && aheadInQueue) {
+			return this.queueRun(runId, runUrl, issueNumber, aheadInQueue);
+		}
+
+		// The org-wide cap is checked last so a rejected or issue-queued run never holds an org slot
+		const slot = await this.acquireOrgSlot(runId, issueNumber);
+		if (!slot.allowed) {
+			return { decision: 'queued', reason: `${slot.active} Bonk runs are already active across ${this.owner} (limit ${slot.limit})` };
+		}
+
+		if (queued) {
+			const { [runId]: _, ...remainingQueued } = this.state.queuedRuns ?? {};
+			this.setState({ ...this.state, queuedRuns: remainingQueued });
+		}
+
 		console.info(`${logPrefix} Tracking run ${runId} for issue #${issueNumber}`);
 
 		const payload: CheckStatusPayload = {
@@ -44,68 +326,448 @@ export class RepoAgent extends Agent<Env, RepoAgentState> {
 			runUrl,
 			issueNumber,
 			createdAt: Date.now(),
+			timeoutMs: merged.timeoutMs ?? MAX_TRACKING_TIME_MS,
+			pollIntervalSeconds: merged.pollIntervalSeconds ?? POLL_INTERVAL_SECONDS,
+			maxRetries: merged.maxRetries ?? 0,
+			attempt: 1,
+			attempts: [],
+			statusCommentId: queued?.statusCommentId,
 		};
 
 		// Store in activeRuns state
 		const activeRuns = { ...this.state.activeRuns, [runId]: payload };
 		this.setState({ ...this.state, activeRuns });
 
+		this.ensureHistoryTable();
+		// A run ID we no longer track (e.g. re-run by hand from the Actions UI) restarts its history entry
+		this.sql`INSERT OR REPLACE INTO run_history (run_id, run_url, issue_number, actor, trigger_event, started_at)
+			VALUES (${runId}, ${runUrl}, ${issueNumber}, ${origin.actor}, ${origin.triggerEvent}, ${payload.createdAt})`;
+
+		// The action calls track from inside the job, so the run is already executing
+		await this.upsertStatusComment(runId, formatProgressComment('running', 0, runUrl));
+
 		// Schedule polling as safety net
-		await this.schedule<CheckStatusPayload>(POLL_INTERVAL_SECONDS, 'checkWorkflowStatus', payload);
-		console.info(`${logPrefix} Scheduled status check in ${POLL_INTERVAL_SECONDS}s`);
+		await this.schedule<CheckStatusPayload>(payload.pollIntervalSeconds!, 'checkWorkflowStatus', payload);
+		console.info(`${logPrefix} Scheduled status check in ${payload.pollIntervalSeconds}s (timeout ${payload.timeoutMs}ms)`);
+		await this.ensureSweep();
+		return { decision: 'started', cancelledRunIds };
+	}
+
+	// Falls back to the defaults when GitHub can't be reached, so a config lookup never blocks a run
+	private async loadConfig(): Promise<RepoConfig> {
+		try {
+			const octokit = await createOctokit(this.env, this.state.installationId);
+			return (await getRepoConfig(this.env, octokit, this.owner, this.repo)).config;
+		} catch (error) {
+			console.error(`[${this.owner}/${this.repo}] Failed to load repo config:`, error);
+			return defaultRepoConfig(this.env);
+		}
+	}
+
+	private async rejectRun(
+		runId: number,
+		runUrl: string,
+		issueNumber: number,
+		origin: RunOrigin,
+		blocking: CheckStatusPayload,
+	): Promise<TrackDecision> {
+		const logPrefix = `[${this.owner}/${this.repo}#${issueNumber}]`;
+		console.info(`${logPrefix} Rejecting run ${runId} - run ${blocking.runId} is still active`);
+
+		const now = Date.now();
+		this.ensureHistoryTable();
+		this.sql`INSERT OR REPLACE INTO run_history (run_id, run_url, issue_number, actor, trigger_event, started_at, ended_at, conclusion)
+			VALUES (${runId}, ${runUrl}, ${issueNumber}, ${origin.actor}, ${origin.triggerEvent}, ${now}, ${now}, 'rejected')`;
+
+		try {
+			const octokit = await createOctokit(this.env, this.state.installationId);
+			const body =
+				`Bonk is already working on this ([run ${blocking.runId}](${blocking.runUrl})), so this request was skipped. ` +
+				'Mention Bonk again once it has finished, or use `/bonk cancel` to stop it.';
+			await createComment(octokit, this.owner, this.repo, issueNumber, body);
+		} catch (error) {
+			console.error(`${logPrefix} Failed to post rejection comment for run ${runId}:`, error);
+		}
+		return { decision: 'rejected', activeRunId: blocking.runId };
+	}
+
+	// Idempotent: the action re-sends the track request while it waits, so an already-queued run keeps its place
+	private async queueRun(runId: number, runUrl: string, issueNumber: number, blocking: { runId: number }): Promise<TrackDecision> {
+		const logPrefix = `[${this.owner}/${this.repo}#${issueNumber}]`;
+		const queuedRuns = this.state.queuedRuns ?? {};
+		if (!queuedRuns[runId]) {
+			console.info(`${logPrefix} Queueing run ${runId} behind run ${blocking.runId}`);
+			const queued: QueuedRun = { runId, runUrl, issueNumber, queuedAt: Date.now() };
+			this.setState({ ...this.state, queuedRuns: { ...queuedRuns, [runId]: queued } });
+
+			try {
+				const octokit = await createOctokit(this.env, this.state.installationId);
+				const body = formatProgressComment('queued', 0, runUrl);
+				const statusCommentId = await createComment(octokit, this.owner, this.repo, issueNumber, body);
+				const current = (this.state.queuedRuns ?? {})[runId];
+				if (current) {
+					this.setState({ ...this.state, queuedRuns: { ...this.state.queuedRuns, [runId]: { ...current, statusCommentId } } });
+				}
+			} catch (error) {
+				console.error(`${logPrefix} Failed to post queued comment for run ${runId}:`, error);
+			}
+		}
+		return { decision: 'queued', activeRunId: blocking.runId };
+	}
+
+	// Workflows report their mentions on every track, so a cancel using any of them is recognised
+	async recordWorkflowMentions(mentions: string[]): Promise<void> {
+		const known = this.state.workflowMentions ?? [];
+		const added = mentions.filter((mention) => !known.some((existing) => existing.toLowerCase() === mention.toLowerCase()));
+		if (added.length > 0) {
+			this.setState({ ...this.state, workflowMentions: [...known, ...added] });
+		}
+	}
+
+	getWorkflowMentions(): string[] {
+		return this.state.workflowMentions ?? [];
+	}
+
+	// Whether the run is waiting to start, either behind another run on its issue or for an org-wide slot
+	async isQueued(runId: number): Promise<boolean> {
+		if ((this.state.queuedRuns ?? {})[runId]) {
+			return true;
+		}
+		try {
+			const org = await getAgentByName<Env, OrgAgent>(this.env.ORG_AGENT, this.owner);
+			return await org.isWaiting(this.repo, runId);
+		} catch (error) {
+			console.error(`[${this.owner}/${this.repo}] Failed to check OrgAgent queue for run ${runId}:`, error);
+			return false;
+		}
 	}
 
 	async finalizeRun(runId: number, status: string): Promise<void> {
 		const logPrefix = `[${this.owner}/${this.repo}]`;
 		console.info(`${logPrefix} Finalizing run ${runId} with status: ${status}`);
 
+		// A queued run that gave up waiting never became active
+		const queuedRuns = this.state.queuedRuns ?? {};
+		if (queuedRuns[runId]) {
+			const { [runId]: _, ...remainingQueued } = queuedRuns;
+			this.setState({ ...this.state, queuedRuns: remainingQueued });
+		}
+
 		const run = this.state.activeRuns[runId];
 		if (!run) {
 			console.info(`${logPrefix} Run ${runId} not found in activeRuns, may have already been finalized`);
 			return;
 		}
 
+		if (status === 'failure' && (await this.scheduleRetry(run, status))) {
+			return;
+		}
+
 		// Remove from activeRuns (this effectively "cancels" the polling)
 		const { [runId]: _, ...remainingRuns } = this.state.activeRuns;
 		this.setState({ ...this.state, activeRuns: remainingRuns });
 
 		// Post failure comment if needed
+		let commented = false;
 		if (status !== 'success' && status !== 'skipped') {
-			await this.postFailureComment(run.runUrl, run.issueNumber, status);
+			commented = await this.postFailureComment(run, status);
 		} else {
 			console.info(`${logPrefix} Run ${runId} completed with ${status} - no failure comment needed`);
+			await this.postSuccessSummary(run, status);
 		}
+		await this.recordRunEnd(run, status, commented);
+	}
+
+	// Most recent runs first. In-flight runs have a null conclusion and match status 'in_progress'.
+	async getRunHistory(query: RunHistoryQuery = {}): Promise<RunHistoryPage> {
+		const limit = query.limit ?? DEFAULT_HISTORY_LIMIT;
+		const issueNumber = query.issueNumber ?? null;
+		const status = query.status ?? null;
+		const since = query.since ?? null;
+		const until = query.until ?? null;
+		const cursor = query.cursor ? decodeHistoryCursor(query.cursor) : null;
+		const cursorStartedAt = cursor?.startedAt ?? null;
+		const cursorRunId = cursor?.runId ?? null;
+
+		this.ensureHistoryTable();
+		// Fetch one extra row to know whether there is another page
+		const rows = this.sql<RunHistoryRow>`SELECT * FROM run_history
+			WHERE (${issueNumber} IS NULL OR issue_number = ${issueNumber})
+				AND (${status} IS NULL OR (${status} = 'in_progress' AND conclusion IS NULL) OR conclusion = ${status})
+				AND (${since} IS NULL OR started_at >= ${since})
+				AND (${until} IS NULL OR started_at < ${until})
+				AND (${cursorStartedAt} IS NULL OR started_at < ${cursorStartedAt} OR (started_at = ${cursorStartedAt} AND run_id < ${cursorRunId}))
+			ORDER BY started_at DESC, run_id DESC
+			LIMIT ${limit + 1}`;
+
+		const runs = rows.slice(0, limit).map((row) => ({
+			runId: row.run_id,
+			runUrl: row.run_url,
+			issueNumber: row.issue_number,
+			actor: row.actor,
+			triggerEvent: row.trigger_event,
+			startedAt: row.started_at,
+			endedAt: row.ended_at,
+			conclusion: row.conclusion,
+			failureCommentPosted: row.failure_comment_posted === 1,
+			attempts: row.attempts,
+		}));
+		const last = runs[runs.length - 1];
+		const nextCursor = rows.length > limit && last ? encodeHistoryCursor(last.startedAt, last.runId) : null;
+		return { runs, nextCursor };
 	}
 
 	async checkWorkflowStatus(payload: CheckStatusPayload): Promise<void> {
 		const logPrefix = `[${this.owner}/${this.repo}]`;
-		const { runId, runUrl, issueNumber, createdAt } = payload;
+		const { runId } = payload;
 
-		// Check if run is still being tracked (may have been finalized by action)
-		if (!this.state.activeRuns[runId]) {
+		// Check if run is still being tracked (may have been finalized by action).
+		// Read the run from state rather than the payload: the payload is a snapshot taken at schedule time.
+		const run = this.state.activeRuns[runId];
+		if (!run) {
 			console.info(`${logPrefix} Run ${runId} already finalized, skipping poll`);
 			return;
 		}
 
+		// Polling resumes once the re-run is requested
+		if (run.retryPending) {
+			console.info(`${logPrefix} Run ${runId} is waiting to be retried, skipping poll`);
+			return;
+		}
+
 		console.info(`${logPrefix} Checking status for run ${runId}`);
 
-		const elapsed = Date.now() - createdAt;
-		if (elapsed > MAX_TRACKING_TIME_MS) {
-			console.warn(`${logPrefix} Run ${runId} timed out after ${elapsed}ms`);
-			// Remove from activeRuns
-			const { [runId]: _, ...remainingRuns } = this.state.activeRuns;
+		const outcome = await this.reconcileRun(run);
+		if (outcome === 'pending' || outcome === 'error') {
+			await this.schedule<CheckStatusPayload>(run.pollIntervalSeconds ?? POLL_INTERVAL_SECONDS, 'checkWorkflowStatus', payload);
+		}
+	}
+
+	// Safety net for runs whose finalize call and poll alarms were both lost (e.g. across a redeploy or migration).
+	// Re-checks every tracked run against the Actions API and reschedules itself while anything is still tracked.
+	async sweepRuns(_payload: unknown, current?: Schedule): Promise<void> {
+		const logPrefix = `[${this.owner}/${this.repo}]`;
+		const repoKey = `${this.owner}/${this.repo}`;
+
+		// Rescheduled up front so a sweep that throws or is evicted part-way doesn't end the chain
+		await this.ensureSweep(current?.id);
+
+		for (const run of Object.values(this.state.activeRuns)) {
+			// Re-read: an earlier iteration may have finalized or cancelled this run
+			const current = this.state.activeRuns[run.runId];
+			if (!current) continue;
+
+			let outcome: RunOutcome;
+			if (current.retryPending) {
+				// A lost retry alarm would otherwise hold the run forever
+				if (Date.now() - current.createdAt <= (current.timeoutMs ?? MAX_TRACKING_TIME_MS)) continue;
+				await this.timeoutRun(current);
+				outcome = 'timeout';
+			} else {
+				outcome = await this.reconcileRun(current);
+			}
+
+			if (outcome === 'finalized' || outcome === 'timeout') {
+				console.warn(`${logPrefix} Sweep recovered orphaned run ${current.runId} (${outcome})`);
+				emitMetric(this.env, {
+					repo: repoKey,
+					eventType: 'reconcile',
+					eventSubtype: outcome,
+					status: 'success',
+					issueNumber: current.issueNumber,
+					runId: current.runId,
+				});
+			}
+		}
+
+		const queuedRuns = this.state.queuedRuns ?? {};
+		const expired = Object.values(queuedRuns).filter((queued) => Date.now() - queued.queuedAt > MAX_TRACKING_TIME_MS);
+		if (expired.length > 0) {
+			const remaining = { ...queuedRuns };
+			for (const queued of expired) {
+				delete remaining[queued.runId];
+				console.warn(`${logPrefix} Sweep pruned queued run ${queued.runId} that never started`);
+				emitMetric(this.env, {
+					repo: repoKey,
+					eventType: 'reconcile',
+					eventSubtype: 'queue_expired',
+					status: 'success',
+					issueNumber: queued.issueNumber,
+					runId: queued.runId,
+				});
+			}
+			this.setState({ ...this.state, queuedRuns: remaining });
+		}
+	}
+
+	// Cancels every tracked run for an issue through the Actions API and stops tracking them.
+	// Returns the runs that were cancelled so the caller can report them.
+	// `reason` completes "Bonk workflow was cancelled ..." in the run's progress comment.
+	async cancelRunsForIssue(issueNumber: number, reason: string): Promise<Array<{ runId: number; runUrl: string }>> {
+		const logPrefix = `[${this.owner}/${this.repo}#${issueNumber}]`;
+		const runs = Object.values(this.state.activeRuns).filter((run) => run.issueNumber === issueNumber);
+		if (runs.length === 0) {
+			return [];
+		}
+
+		const octokit = await createOctokit(this.env, this.state.installationId);
+		const cancelled: Array<{ runId: number; runUrl: string }> = [];
+		for (const run of runs) {
+			try {
+				await cancelWorkflowRun(octokit, this.owner, this.repo, run.runId);
+			} catch (error) {
+				// Usually a 409 because the run finished between our last poll and now - still stop tracking it
+				console.warn(`${logPrefix} Failed to cancel run ${run.runId}:`, error);
+			}
+
+			const { [run.runId]: _, ...remainingRuns } = this.state.activeRuns;
 			this.setState({ ...this.state, activeRuns: remainingRuns });
-			await this.postFailureComment(runUrl, issueNumber, 'timeout');
+			if (run.statusCommentId) {
+				try {
+					const body = `Bonk workflow was cancelled ${reason}.\n\n[View workflow run](${run.runUrl})`;
+					await updateComment(octokit, this.owner, this.repo, run.statusCommentId, body);
+				} catch (error) {
+					console.error(`${logPrefix} Failed to update status comment for run ${run.runId}:`, error);
+				}
+			}
+			await this.recordRunEnd(run, 'cancelled', false);
+			cancelled.push({ runId: run.runId, runUrl: run.runUrl });
+			console.info(`${logPrefix} Cancelled run ${run.runId} ${reason}`);
+		}
+		return cancelled;
+	}
+
+	// Called when the app loses access to the repo: removed from the installation, installation suspended or
+	// deleted, or the owner renamed. No token can be minted for the repo any more, so tracked runs are dropped
+	// now instead of failing every poll until they time out. Run history is kept.
+	async detachInstallation(reason: string): Promise<number> {
+		const runs = Object.values(this.state.activeRuns);
+		for (const run of runs) {
+			await this.recordRunEnd(run, 'detached', false);
+		}
+
+		const queued = Object.keys(this.state.queuedRuns ?? {}).length;
+		this.setState({ installationId: 0, activeRuns: {}, queuedRuns: {} });
+		for (const schedule of this.getSchedules()) {
+			await this.cancelSchedule(schedule.id);
+		}
+
+		if (runs.length > 0 || queued > 0) {
+			const logPrefix = `[${this.owner}/${this.repo}]`;
+			console.info(`${logPrefix} Installation detached (${reason}): dropped ${runs.length} active and ${queued} queued run(s)`);
+		}
+		return runs.length + queued;
+	}
+
+	// Called by the scheduler after the retry backoff. Requests a re-run of the failed jobs if the job log
+	// shows a transient cause; the new attempt calls track again, which clears retryPending. The decision
+	// waits until now because the log isn't available while the action is still finalizing the job.
+	async retryWorkflowRun(payload: { runId: number }): Promise<void> {
+		const logPrefix = `[${this.owner}/${this.repo}]`;
+		const run = this.state.activeRuns[payload.runId];
+		if (!run?.retryPending) {
+			console.info(`${logPrefix} Run ${payload.runId} no longer awaiting retry, skipping`);
 			return;
 		}
 
-		let octokit;
+		const attempt = (run.attempt ?? 1) + 1;
+		try {
+			const octokit = await createOctokit(this.env, this.state.installationId);
+			const diagnosis = await this.diagnoseFailure(octokit, run.runId);
+			if (!isTransientFailure(diagnosis)) {
+				console.info(`${logPrefix} Run ${run.runId} failed with ${diagnosis?.classification ?? 'an unknown cause'}, not retrying`);
+				await this.reportRetryAbandoned(run);
+				return;
+			}
+			await rerunFailedJobs(octokit, this.owner, this.repo, run.runId);
+		} catch (error) {
+			// Can't retry - report the last failure instead
+			console.error(`${logPrefix} Failed to re-run run ${run.runId}:`, error);
+			await this.reportRetryAbandoned(run);
+			return;
+		}
+
+		console.info(`${logPrefix} Re-ran failed jobs for run ${run.runId} (attempt ${attempt})`);
+		const updated: CheckStatusPayload = { ...run, attempt, createdAt: Date.now() };
+		this.setState({ ...this.state, activeRuns: { ...this.state.activeRuns, [run.runId]: updated } });
+		await this.upsertStatusComment(run.runId, formatProgressComment('queued', 0, run.runUrl));
+		await this.schedule<CheckStatusPayload>(run.pollIntervalSeconds ?? POLL_INTERVAL_SECONDS, 'checkWorkflowStatus', updated);
+	}
+
+	async annotateFailureComment(payload: AnnotateFailurePayload): Promise<void> {
+		const logPrefix = `[${this.owner}/${this.repo}]`;
+		const { run, commentId, endedAt, attempt } = payload;
+
+		try {
+			const octokit = await createOctokit(this.env, this.state.installationId);
+			const diagnosis = await this.diagnoseFailure(octokit, run.runId);
+			if (diagnosis) {
+				const body = formatFailureComment(run, 'failure', endedAt - run.createdAt, diagnosis);
+				await updateComment(octokit, this.owner, this.repo, commentId, body);
+				console.info(`${logPrefix} Added log excerpt to failure comment for run ${run.runId}`);
+				return;
+			}
+		} catch (error) {
+			console.error(`${logPrefix} Failed to annotate failure comment for run ${run.runId}:`, error);
+		}
+
+		if (attempt < LOG_FETCH_MAX_ATTEMPTS) {
+			await this.schedule<AnnotateFailurePayload>(LOG_FETCH_DELAY_SECONDS, 'annotateFailureComment', { ...payload, attempt: attempt + 1 });
+		} else {
+			console.warn(`${logPrefix} Gave up fetching job log for run ${run.runId}`);
+		}
+	}
+
+	private async reportRetryAbandoned(run: CheckStatusPayload): Promise<void> {
+		const { [run.runId]: _, ...remainingRuns } = this.state.activeRuns;
+		this.setState({ ...this.state, activeRuns: remainingRuns });
+		const commented = await this.postFailureComment(run, 'failure');
+		await this.recordRunEnd(run, 'failure', commented);
+	}
+
+	// Records the failed attempt and schedules a re-run if the run's retry budget allows it; retryWorkflowRun
+	// then only re-runs transient failures. Returns false when retries are disabled or exhausted, so the
+	// caller reports the failure.
+	private async scheduleRetry(run: CheckStatusPayload, conclusion: string): Promise<boolean> {
+		const logPrefix = `[${this.owner}/${this.repo}]`;
+		const attempt = run.attempt ?? 1;
+		// Cancelled and timed-out runs were stopped on purpose, by a user or a timeout; only failures are retried
+		if (conclusion !== 'failure' || attempt > (run.maxRetries ?? 0)) {
+			return false;
+		}
+
+		const attempts = [...(run.attempts ?? []), { attempt, conclusion, endedAt: Date.now() }];
+
+		const delaySeconds = RETRY_BASE_DELAY_SECONDS * 2 ** (attempt - 1);
+		console.info(`${logPrefix} Run ${run.runId} attempt ${attempt} failed, retrying in ${delaySeconds}s`);
+		this.setState({ ...this.state, activeRuns: { ...this.state.activeRuns, [run.runId]: { ...run, attempts, retryPending: true } } });
+
+		await this.upsertStatusComment(
+			run.runId,
+			`Bonk workflow attempt ${attempt} failed. Retrying in ${formatElapsed(delaySeconds * 1000)} if the cause looks transient.\n\n[View workflow run](${run.runUrl})`,
+		);
+		await this.schedule<{ runId: number }>(delaySeconds, 'retryWorkflowRun', { runId: run.runId });
+		return true;
+	}
+
+	// Checks a tracked run once and finalizes it if it completed or exceeded its timeout
+	private async reconcileRun(run: CheckStatusPayload): Promise<RunOutcome> {
+		const logPrefix = `[${this.owner}/${this.repo}]`;
+		const { runId, runUrl } = run;
+
+		const elapsed = Date.now() - run.createdAt;
+		if (elapsed > (run.timeoutMs ?? MAX_TRACKING_TIME_MS)) {
+			console.warn(`${logPrefix} Run ${runId} timed out after ${elapsed}ms`);
+			await this.timeoutRun(run);
+			return 'timeout';
+		}
+
+		let octokit: Octokit;
 		try {
 			octokit = await createOctokit(this.env, this.state.installationId);
 		} catch (error) {
 			console.error(`${logPrefix} Failed to create Octokit:`, error);
-			await this.schedule<CheckStatusPayload>(POLL_INTERVAL_SECONDS, 'checkWorkflowStatus', payload);
-			return;
+			return 'error';
 		}
 
 		try {
@@ -113,46 +775,518 @@ export class RepoAgent extends Agent<Env, RepoAgentState> {
 
 			console.info(`${logPrefix} Run ${runId} status: ${status.status}, conclusion: ${status.conclusion}`);
 
-			if (status.status === 'completed') {
-				// Remove from activeRuns
-				const { [runId]: _, ...remainingRuns } = this.state.activeRuns;
-				this.setState({ ...this.state, activeRuns: remainingRuns });
+			if (status.status !== 'completed') {
+				const phase = status.status === 'in_progress' ? 'running' : 'queued';
+				await this.upsertStatusComment(runId, formatProgressComment(phase, elapsed, runUrl), octokit);
+				return 'pending';
+			}
 
-				// On success, OpenCode posts the response - we stay silent
-				if (status.conclusion !== 'success') {
-					await this.postFailureComment(runUrl, issueNumber, status.conclusion);
-				} else {
-					console.info(`${logPrefix} Run ${runId} succeeded - OpenCode will post response`);
-				}
+			if (status.conclusion === 'failure' && (await this.scheduleRetry(run, status.conclusion))) {
+				return 'retrying';
+			}
+
+			// Remove from activeRuns
+			const { [runId]: _, ...remainingRuns } = this.state.activeRuns;
+			this.setState({ ...this.state, activeRuns: remainingRuns });
+
+			// On success, OpenCode posts the response - we only close out the progress comment
+			let commented = false;
+			if (status.conclusion !== 'success') {
+				commented = await this.postFailureComment(run, status.conclusion);
 			} else {
-				await this.schedule<CheckStatusPayload>(POLL_INTERVAL_SECONDS, 'checkWorkflowStatus', payload);
+				console.info(`${logPrefix} Run ${runId} succeeded - OpenCode will post response`);
+				await this.postSuccessSummary(run, 'success');
 			}
+			await this.recordRunEnd(run, status.conclusion ?? 'unknown', commented);
+			return 'finalized';
 		} catch (error) {
 			console.error(`${logPrefix} Failed to check run ${runId}:`, error);
-			await this.schedule<CheckStatusPayload>(POLL_INTERVAL_SECONDS, 'checkWorkflowStatus', payload);
+			return 'error';
 		}
 	}
 
-	private async postFailureComment(runUrl: string, issueNumber: number, conclusion: string | null): Promise<void> {
+	private async timeoutRun(run: CheckStatusPayload): Promise<void> {
 		const logPrefix = `[${this.owner}/${this.repo}]`;
+		const { runId } = run;
 
-		const statusMessage =
-			conclusion === 'timeout'
-				? 'Bonk workflow timed out.'
-				: conclusion === 'failure'
-					? 'Bonk workflow failed. Check the logs for details.'
-					: conclusion === 'cancelled'
-						? 'Bonk workflow was cancelled.'
-						: `Bonk workflow finished with status: ${conclusion ?? 'unknown'}`;
+		// Remove from activeRuns
+		const { [runId]: _, ...remainingRuns } = this.state.activeRuns;
+		this.setState({ ...this.state, activeRuns: remainingRuns });
+
+		// Stop the run so it can't push or comment after we've reported the timeout
+		try {
+			const octokit = await createOctokit(this.env, this.state.installationId);
+			await cancelWorkflowRun(octokit, this.owner, this.repo, runId);
+			console.info(`${logPrefix} Cancelled timed out run ${runId}`);
+		} catch (error) {
+			console.error(`${logPrefix} Failed to cancel timed out run ${runId}:`, error);
+		}
 
-		const body = `${statusMessage}\n\n[View workflow run](${runUrl})`;
+		const commented = await this.postFailureComment(run, 'timeout');
+		await this.recordRunEnd(run, 'timeout', commented);
+	}
+
+	// Keeps exactly one sweep scheduled while runs are tracked, so idle repos don't wake up.
+	// A running sweep passes its own schedule, which the SDK only deletes once the callback returns.
+	private async ensureSweep(runningId?: string): Promise<void> {
+		const tracked = Object.keys(this.state.activeRuns).length + Object.keys(this.state.queuedRuns ?? {}).length;
+		if (tracked === 0 || this.getSchedules().some((schedule) => schedule.callback === 'sweepRuns' && schedule.id !== runningId)) {
+			return;
+		}
+		await this.schedule(SWEEP_INTERVAL_SECONDS, 'sweepRuns');
+	}
+
+	// Every terminal path goes through here, so it also releases the run's org-wide slot
+	private async recordRunEnd(run: CheckStatusPayload, conclusion: string, failureCommentPosted: boolean): Promise<void> {
+		try {
+			const org = await getAgentByName<Env, OrgAgent>(this.env.ORG_AGENT, this.owner);
+			await org.releaseRun(this.repo, run.runId, conclusion);
+		} catch (error) {
+			console.error(`[${this.owner}/${this.repo}] Failed to report run ${run.runId} end to OrgAgent:`, error);
+		}
+
+		this.ensureHistoryTable();
+		this.sql`UPDATE run_history SET ended_at = ${Date.now()}, conclusion = ${conclusion}, failure_comment_posted = ${failureCommentPosted ? 1 : 0},
+			attempts = ${run.attempt ?? 1}
+			WHERE run_id = ${run.runId}`;
+	}
+
+	// Fails open: if the OrgAgent is unreachable, the run goes ahead rather than being stuck in the queue
+	private async acquireOrgSlot(runId: number, issueNumber: number): Promise<OrgSlot> {
+		try {
+			const org = await getAgentByName<Env, OrgAgent>(this.env.ORG_AGENT, this.owner);
+			return await org.acquireRun(this.repo, runId, issueNumber, this.env.ORG_MAX_CONCURRENT_RUNS ?? null);
+		} catch (error) {
+			console.error(`[${this.owner}/${this.repo}] Failed to acquire OrgAgent slot for run ${runId}:`, error);
+			return { allowed: true, active: 0, limit: null };
+		}
+	}
+
+	// Creates the run's progress comment, or edits it in place if one exists. Failures are logged and
+	// swallowed: a missing progress comment must never stop tracking.
+	private async upsertStatusComment(runId: number, body: string, octokit?: Octokit): Promise<void> {
+		const logPrefix = `[${this.owner}/${this.repo}]`;
+		const run = this.state.activeRuns[runId];
+		if (!run) return;
+
+		try {
+			const client = octokit ?? (await createOctokit(this.env, this.state.installationId));
+			if (run.statusCommentId) {
+				await updateComment(client, this.owner, this.repo, run.statusCommentId, body);
+			} else {
+				const statusCommentId = await createComment(client, this.owner, this.repo, run.issueNumber, body);
+				// Re-read state: the run may have been finalized while the comment was being created
+				const current = this.state.activeRuns[runId];
+				if (current) {
+					this.setState({ ...this.state, activeRuns: { ...this.state.activeRuns, [runId]: { ...current, statusCommentId } } });
+				}
+			}
+		} catch (error) {
+			console.error(`${logPrefix} Failed to update status comment for run ${runId}:`, error);
+		}
+	}
+
+	// Closes out the progress comment. Runs are removed from activeRuns before this is called,
+	// so the comment is edited directly rather than through upsertStatusComment.
+	private async postSuccessSummary(run: CheckStatusPayload, status: string): Promise<void> {
+		if (!run.statusCommentId) return;
+
+		const logPrefix = `[${this.owner}/${this.repo}]`;
+		const summary = status === 'skipped' ? 'Bonk workflow was skipped.' : 'Bonk workflow completed';
+		const body = `${summary} in ${formatElapsed(Date.now() - run.createdAt)}.\n\n[View workflow run](${run.runUrl})`;
 
 		try {
 			const octokit = await createOctokit(this.env, this.state.installationId);
-			await createComment(octokit, this.owner, this.repo, issueNumber, body);
+			await updateComment(octokit, this.owner, this.repo, run.statusCommentId, body);
+		} catch (error) {
+			console.error(`${logPrefix} Failed to update status comment for run ${run.runId}:`, error);
+		}
+	}
+
+	// Edits the progress comment into a failure summary, or posts a new comment if there is none.
+	// Returns whether the comment was written, so callers can record it in run history.
+	private async postFailureComment(run: CheckStatusPayload, conclusion: string | null): Promise<boolean> {
+		const logPrefix = `[${this.owner}/${this.repo}]`;
+		const { runId, issueNumber } = run;
+		const endedAt = Date.now();
+
+		try {
+			const octokit = await createOctokit(this.env, this.state.installationId);
+			const diagnosis = conclusion === 'failure' ? await this.diagnoseFailure(octokit, runId) : null;
+			const body = formatFailureComment(run, conclusion, endedAt - run.createdAt, diagnosis);
+
+			let commentId = run.statusCommentId;
+			if (commentId) {
+				await updateComment(octokit, this.owner, this.repo, commentId, body);
+			} else {
+				commentId = await createComment(octokit, this.owner, this.repo, issueNumber, body);
+			}
 			console.info(`${logPrefix} Posted failure comment for issue #${issueNumber}: ${conclusion}`);
+
+			// When finalize reports the failure the job is still running, so its log isn't available yet
+			if (conclusion === 'failure' && !diagnosis) {
+				await this.schedule<AnnotateFailurePayload>(LOG_FETCH_DELAY_SECONDS, 'annotateFailureComment', {
+					run,
+					commentId,
+					endedAt,
+					attempt: 1,
+				});
+			}
+			return true;
 		} catch (error) {
 			console.error(`${logPrefix} Failed to post failure comment for issue #${issueNumber}:`, error);
+			return false;
 		}
 	}
+
+	// Returns null when the failed job or its log can't be found yet
+	private async diagnoseFailure(octokit: Octokit, runId: number): Promise<FailureDiagnosis | null> {
+		try {
+			const jobLog = await getFailedJobLog(octokit, this.owner, this.repo, runId);
+			if (!jobLog) {
+				return null;
+			}
+			const diagnosis = diagnoseJobLog(jobLog.log);
+			return { ...diagnosis, phase: diagnosis.phase ?? jobLog.stepName, jobName: jobLog.jobName };
+		} catch (error) {
+			console.warn(`[${this.owner}/${this.repo}] Failed to fetch job log for run ${runId}:`, error);
+			return null;
+		}
+	}
+}
+
+interface OrgRun {
+	repo: string;
+	runId: number;
+	issueNumber: number;
+	startedAt: number;
+}
+
+interface OrgFinishedRun {
+	repo: string;
+	runId: number;
+	conclusion: string;
+	endedAt: number;
+}
+
+interface OrgAgentState {
+	// Keyed by "{repo}#{runId}"
+	activeRuns: Record<string, OrgRun>;
+	// Runs waiting for a free slot under the org cap, keyed like activeRuns
+	waitingRuns: Record<string, { repo: string; runId: number; since: number }>;
+	// Finished runs within FAILURE_RATE_WINDOW_MS, oldest first
+	recentRuns: OrgFinishedRun[];
+}
+
+export interface OrgSlot {
+	allowed: boolean;
+	active: number;
+	limit: number | null;
+}
+
+export interface OrgSummary {
+	owner: string;
+	activeRuns: OrgRun[];
+	concurrentRuns: number;
+	concurrencyLimit: number | null;
+	// Runs waiting for a slot under the org cap. Runs queued behind another run on the same issue
+	// stay with their RepoAgent and aren't counted.
+	orgQueueDepth: number;
+	finishedLast24h: number;
+	// Share of runs finished in the last 24h that didn't succeed; null when none finished
+	failureRate: number | null;
+}
+
+const FAILURE_RATE_WINDOW_MS = 24 * 60 * 60 * 1000;
+// GitHub caps jobs at 6 hours, so an org entry older than that lost its release
+const ORG_RUN_TTL_MS = 6 * 60 * 60 * 1000;
+// Matches the action's queue timeout; older waiters gave up
+const ORG_WAIT_TTL_MS = 30 * 60 * 1000;
+const SUCCESS_CONCLUSIONS = ['success', 'skipped'];
+// GitHub keeps deliveries for 3 days, so a redelivery can't arrive after its ID is forgotten
+const DELIVERY_TTL_MS = 3 * 24 * 60 * 60 * 1000;
+
+// Aggregates run activity across every RepoAgent for an owner and enforces the org-wide
+// concurrency cap. ID format: "{owner}". RepoAgents report to it; it never calls them back.
+export class OrgAgent extends Agent<Env, OrgAgentState> {
+	initialState: OrgAgentState = { activeRuns: {}, waitingRuns: {}, recentRuns: [] };
+
+	async acquireRun(repo: string, runId: number, issueNumber: number, limit: number | null): Promise<OrgSlot> {
+		this.prune();
+		const key = `${repo}#${runId}`;
+		const active = Object.keys(this.state.activeRuns).filter((k) => k !== key).length;
+
+		if (limit !== null && active >= limit) {
+			const waitingRuns = { ...this.state.waitingRuns, [key]: this.state.waitingRuns[key] ?? { repo, runId, since: Date.now() } };
+			this.setState({ ...this.state, waitingRuns });
+			console.info(`[${this.name}] Run ${key} waiting: ${active}/${limit} runs active`);
+			return { allowed: false, active, limit };
+		}
+
+		const { [key]: _, ...waitingRuns } = this.state.waitingRuns;
+		const activeRuns = { ...this.state.activeRuns, [key]: { repo, runId, issueNumber, startedAt: Date.now() } };
+		this.setState({ ...this.state, activeRuns, waitingRuns });
+		return { allowed: true, active: active + 1, limit };
+	}
+
+	async releaseRun(repo: string, runId: number, conclusion: string): Promise<void> {
+		const key = `${repo}#${runId}`;
+		const { [key]: released, ...activeRuns } = this.state.activeRuns;
+		const { [key]: _, ...waitingRuns } = this.state.waitingRuns;
+		const recentRuns = released ? [...this.state.recentRuns, { repo, runId, conclusion, endedAt: Date.now() }] : this.state.recentRuns;
+		this.setState({ ...this.state, activeRuns, waitingRuns, recentRuns });
+		this.prune();
+	}
+
+	async isWaiting(repo: string, runId: number): Promise<boolean> {
+		this.prune();
+		return `${repo}#${runId}` in this.state.waitingRuns;
+	}
+
+	// Repos with runs holding or waiting for a slot - the RepoAgents that have state worth cleaning up
+	async getTrackedRepos(): Promise<string[]> {
+		this.prune();
+		const runs = [...Object.values(this.state.activeRuns), ...Object.values(this.state.waitingRuns)];
+		return [...new Set(runs.map((run) => run.repo))];
+	}
+
+	async getSummary(limit: number | null): Promise<OrgSummary> {
+		this.prune();
+		const finished = this.state.recentRuns;
+		const failed = finished.filter((run) => !SUCCESS_CONCLUSIONS.includes(run.conclusion)).length;
+		const activeRuns = Object.values(this.state.activeRuns);
+		return {
+			owner: this.name,
+			activeRuns,
+			concurrentRuns: activeRuns.length,
+			concurrencyLimit: limit,
+			orgQueueDepth: Object.keys(this.state.waitingRuns).length,
+			finishedLast24h: finished.length,
+			failureRate: finished.length > 0 ? failed / finished.length : null,
+		};
+	}
+
+	// Records a webhook delivery for this owner. Returns false if it was already claimed, i.e. the delivery is a
+	// GitHub retry or a manual redelivery. Kept in SQL rather than state, as every delivery adds a row.
+	async claimDelivery(deliveryId: string): Promise<boolean> {
+		this.ensureDeliveriesTable();
+		this.sql`DELETE FROM deliveries WHERE received_at < ${Date.now() - DELIVERY_TTL_MS}`;
+		const claimed = this.sql<{ delivery_id: string }>`
+			INSERT INTO deliveries (delivery_id, received_at) VALUES (${deliveryId}, ${Date.now()})
+			ON CONFLICT (delivery_id) DO NOTHING
+			RETURNING delivery_id
+		`;
+		return claimed.length > 0;
+	}
+
+	// Forgets a delivery that failed processing, so GitHub's retry of it is processed again
+	async releaseDelivery(deliveryId: string): Promise<void> {
+		this.ensureDeliveriesTable();
+		this.sql`DELETE FROM deliveries WHERE delivery_id = ${deliveryId}`;
+	}
+
+	private ensureDeliveriesTable(): void {
+		this.sql`CREATE TABLE IF NOT EXISTS deliveries (delivery_id TEXT PRIMARY KEY, received_at INTEGER NOT NULL)`;
+		this.sql`CREATE INDEX IF NOT EXISTS deliveries_received_at ON deliveries (received_at)`;
+	}
+
+	// Drops entries whose owners never came back: lost releases, abandoned waiters and finished runs outside the window
+	private prune(): void {
+		const now = Date.now();
+		const activeRuns = Object.fromEntries(Object.entries(this.state.activeRuns).filter(([, run]) => now - run.startedAt < ORG_RUN_TTL_MS));
+		const waitingRuns = Object.fromEntries(Object.entries(this.state.waitingRuns).filter(([, run]) => now - run.since < ORG_WAIT_TTL_MS));
+		const recentRuns = this.state.recentRuns.filter((run) => now - run.endedAt < FAILURE_RATE_WINDOW_MS);
+
+		const changed =
+			Object.keys(activeRuns).length !== Object.keys(this.state.activeRuns).length ||
+			Object.keys(waitingRuns).length !== Object.keys(this.state.waitingRuns).length ||
+			recentRuns.length !== this.state.recentRuns.length;
+		if (changed) {
+			this.setState({ ...this.state, activeRuns, waitingRuns, recentRuns });
+		}
+	}
+}
+
+export type AskJobStatus = 'running' | 'succeeded' | 'failed';
+
+export interface AskJob {
+	askId: string;
+	owner: string;
+	repo: string;
+	status: AskJobStatus;
+	createdAt: number;
+	// Set when the run begins; a run is only ever started once
+	startedAt: number | null;
+	finishedAt: number | null;
+	sessionId: string | null;
+	// Payload of the `response` event, once the run sent one
+	result: Extract<AskEvent, { event: 'response' }>['data'] | null;
+	error: string | null;
+	// Cursor of the newest stored event; pass it to /ask/:id/events to resume after it
+	lastEventId: number;
+}
+
+// Stored event with its cursor, which increases by one per event
+export interface AskJobEvent {
+	id: number;
+	event: AskEvent['event'];
+	// JSON-encoded as sent on the stream, so it is relayed without re-encoding
+	data: string;
+}
+
+export interface AskEventsPage {
+	events: AskJobEvent[];
+	// The job has finished and no events follow this page
+	complete: boolean;
+}
+
+interface AskRunPayload {
+	request: AskRequest;
+	installationId: number;
+	config: RepoConfig;
+}
+
+interface AskAgentState {
+	job: Omit<AskJob, 'lastEventId'> | null;
+}
+
+// Jobs run in an alarm handler, which gets 15 minutes of wall time; a job still running after that lost its run
+const ASK_JOB_MAX_RUNTIME_MS = 15 * 60 * 1000;
+// Finished jobs are kept this long so clients can fetch the result, then deleted
+const ASK_JOB_RETENTION_SECONDS = 24 * 60 * 60;
+const ASK_EVENTS_PAGE_SIZE = 500;
+
+// Runs one /ask request started with mode=async and keeps its events, so clients can poll for the
+// result or resume the stream after disconnecting. ID format: "{askId}".
+export class AskAgent extends Agent<Env, AskAgentState> {
+	initialState: AskAgentState = { job: null };
+
+	async onStart(): Promise<void> {
+		this.ensureEventsTable();
+	}
+
+	// runJob is an alarm, and the SDK runs due alarms before onStart when the agent wakes
+	private ensureEventsTable(): void {
+		this.sql`CREATE TABLE IF NOT EXISTS ask_events (
+			id INTEGER PRIMARY KEY AUTOINCREMENT,
+			event TEXT NOT NULL,
+			data TEXT NOT NULL
+		)`;
+	}
+
+	// Idempotent: a job that already exists is returned as-is rather than started again
+	async start(request: AskRequest, installationId: number, config: RepoConfig): Promise<AskJob> {
+		if (!this.state.job) {
+			const { id: askId, owner, repo } = request;
+			this.setState({
+				job: {
+					askId,
+					owner,
+					repo,
+					status: 'running',
+					createdAt: Date.now(),
+					startedAt: null,
+					finishedAt: null,
+					sessionId: null,
+					result: null,
+					error: null,
+				},
+			});
+			// Run from an alarm rather than this call, so the run doesn't depend on the caller staying connected
+			await this.schedule<AskRunPayload>(0, 'runJob', { request, installationId, config });
+			console.info(`[${owner}/${repo}][ask:${askId}] Started async ask`);
+		}
+		return (await this.getJob())!;
+	}
+
+	async runJob(payload: AskRunPayload): Promise<void> {
+		const { request, installationId, config } = payload;
+		const logPrefix = `[${request.owner}/${request.repo}][ask:${request.id}]`;
+		const job = this.state.job;
+		if (!job || job.status !== 'running') {
+			return;
+		}
+		// The SDK re-runs a schedule whose callback never returned, e.g. when the object restarted mid-run.
+		// Replaying the ask could open a second PR, so an interrupted run fails instead.
+		if (job.startedAt !== null) {
+			console.warn(`${logPrefix} Run was interrupted, not starting it again`);
+			await this.finish('failed', 'Run was interrupted');
+			return;
+		}
+		this.setState({ job: { ...job, startedAt: Date.now() } });
+
+		try {
+			const { done } = await startAsk(this.env, installationId, request, config, async (event) => {
+				await this.recordEvent(event);
+				return true;
+			});
+			await done;
+		} catch (error) {
+			// Setup failed before a session existed
+			const message = error instanceof Error ? error.message : 'Unknown error';
+			console.error(`${logPrefix} Ask failed:`, message);
+			await this.recordEvent({ event: 'error', data: { message, askId: request.id, sessionId: '' } });
+		}
+
+		if (this.state.job?.status === 'running') {
+			await this.finish('failed', 'Run ended without a result');
+		}
+	}
+
+	async getJob(): Promise<AskJob | null> {
+		const job = this.state.job;
+		if (!job) {
+			return null;
+		}
+		if (job.status === 'running' && Date.now() - job.createdAt > ASK_JOB_MAX_RUNTIME_MS) {
+			await this.finish('failed', 'Run timed out');
+		}
+
+		this.ensureEventsTable();
+		const [row] = this.sql<{ last: number | null }>`SELECT MAX(id) AS last FROM ask_events`;
+		return { ...this.state.job!, lastEventId: row?.last ?? 0 };
+	}
+
+	// Events stored after `cursor`, oldest first
+	async getEvents(cursor: number): Promise<AskEventsPage> {
+		const job = await this.getJob();
+		this.ensureEventsTable();
+		const events = this.sql<AskJobEvent>`
+			SELECT id, event, data FROM ask_events WHERE id > ${cursor} ORDER BY id LIMIT ${ASK_EVENTS_PAGE_SIZE}`;
+		return { events, complete: job?.status !== 'running' && events.length < ASK_EVENTS_PAGE_SIZE };
+	}
+
+	async expireJob(): Promise<void> {
+		console.info(`[ask:${this.name}] Deleting expired ask job`);
+		await this.destroy();
+	}
+
+	private async recordEvent(event: AskEvent): Promise<void> {
+		this.ensureEventsTable();
+		this.sql`INSERT INTO ask_events (event, data) VALUES (${event.event}, ${JSON.stringify(event.data)})`;
+
+		const job = this.state.job;
+		if (!job) return;
+		switch (event.event) {
+			case 'session':
+				this.setState({ job: { ...job, sessionId: event.data.id } });
+				break;
+			case 'response':
+				this.setState({ job: { ...job, result: event.data } });
+				break;
+			case 'done':
+				await this.finish(event.data.success ? 'succeeded' : 'failed', null);
+				break;
+			case 'error':
+				await this.finish('failed', event.data.message);
+				break;
+		}
+	}
+
+	private async finish(status: Exclude<AskJobStatus, 'running'>, error: string | null): Promise<void> {
+		const job = this.state.job;
+		if (!job || job.status !== 'running') return;
+		this.setState({ job: { ...job, status, error, finishedAt: Date.now() } });
+		await this.schedule(ASK_JOB_RETENTION_SECONDS, 'expireJob');
+	}
 }
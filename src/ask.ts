@@ -0,0 +1,85 @@
+import { Hono } from 'hono';
+import { getAgentByName } from 'agents';
+import type { AskJobEvent } from './agent';
+import type { Env } from './types';
+
+// Crockford base32, as generated by ulid() - checked before an ID is used to address an AskAgent
+const ASK_ID_PATTERN = /^[0-9A-HJKMNP-TV-Z]{26}$/;
+// How often a resumed event stream checks the AskAgent for new events
+const ASK_EVENTS_POLL_MS = 1000;
+
+// Status and event routes for async asks, mounted under /ask behind its bearer auth
+export const askJobs = new Hono<{ Bindings: Env }>();
+
+// Status and, once finished, the final response of an async ask
+askJobs.get('/:id', async (c) => {
+	const askId = c.req.param('id');
+	if (!ASK_ID_PATTERN.test(askId)) {
+		return c.json({ error: 'Invalid ask ID' }, 400);
+	}
+
+	const agent = await getAgentByName(c.env.ASK_AGENT, askId);
+	const job = await agent.getJob();
+	if (!job) {
+		return c.json({ error: `Ask ${askId} not found` }, 404);
+	}
+	return c.json(job);
+});
+
+// Replays an async ask's events after the cursor, then follows the run until it finishes. Each event carries
+// its cursor as the SSE `id`, so EventSource clients resume via Last-Event-ID without passing ?cursor.
+askJobs.get('/:id/events', async (c) => {
+	const askId = c.req.param('id');
+	if (!ASK_ID_PATTERN.test(askId)) {
+		return c.json({ error: 'Invalid ask ID' }, 400);
+	}
+	const rawCursor = c.req.query('cursor') ?? c.req.header('Last-Event-ID') ?? '0';
+	if (!/^\d+$/.test(rawCursor)) {
+		return c.json({ error: 'cursor must be a non-negative integer' }, 400);
+	}
+
+	const agent = await getAgentByName(c.env.ASK_AGENT, askId);
+	if (!(await agent.getJob())) {
+		return c.json({ error: `Ask ${askId} not found` }, 404);
+	}
+
+	const { readable, writable } = new TransformStream();
+	const writer = writable.getWriter();
+	const encoder = new TextEncoder();
+	const writeEvent = ({ id, event, data }: AskJobEvent) =>
+		writer.write(encoder.encode(`id: ${id}\nevent: ${event}\ndata: ${data}\n\n`));
+
+	(async () => {
+		let cursor = Number(rawCursor);
+		try {
+			while (true) {
+				const page = await agent.getEvents(cursor);
+				for (const event of page.events) {
+					await writeEvent(event);
+					cursor = event.id;
+				}
+				if (page.complete) break;
+				if (page.events.length === 0) {
+					await new Promise((resolve) => setTimeout(resolve, ASK_EVENTS_POLL_MS));
+				}
+			}
+		} catch (error) {
+			// Usually the client disconnecting; the job carries on regardless
+			console.info(`[ask:${askId}] Event stream ended at cursor ${cursor}:`, error instanceof Error ? error.message : error);
+		} finally {
+			try {
+				await writer.close();
+			} catch {
+				// Already closed by the client
+			}
+		}
+	})();
+
+	return new Response(readable, {
+		headers: {
+			'Content-Type': 'text/event-stream',
+			'Cache-Control': 'no-cache',
+			'Connection': 'keep-alive',
+		},
+	});
+});
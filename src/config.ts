@@ -0,0 +1,166 @@
+import type { Octokit } from '@octokit/rest';
+import { parse as parseYaml } from 'yaml';
+import { DEFAULT_MODEL, type Env, type RepoConfig } from './types';
+import type { RunLimits } from './agent';
+import { DEFAULT_MENTIONS } from './events';
+import { getFileContent } from './github';
+
+// Looked up on the default branch in this order; the first file found is used
+export const REPO_CONFIG_PATHS = ['.github/bonk.yml', '.github/bonk.yaml', '.github/bonk.jsonc'];
+// Bumped on breaking schema changes, so an older Worker rejects a file it would misread
+const REPO_CONFIG_VERSION = 1;
+// Nothing tells us when the file changes, so edits take effect once the cached copy expires
+const REPO_CONFIG_KEY_PREFIX = 'repo-config:';
+const REPO_CONFIG_CACHE_TTL_SECS = 300;
+
+const PERMISSIONS = ['admin', 'write', 'any', 'CODEOWNERS'] as const;
+const CONCURRENCY_POLICIES = ['reject', 'cancel', 'queue'] as const;
+
+export interface LoadedRepoConfig {
+	config: RepoConfig;
+	// File the config was read from, or null when the repo doesn't have one
+	path: string | null;
+	// Schema violations. An invalid file is ignored as a whole, so `config` holds the defaults.
+	errors?: string[];
+}
+
+export function defaultRepoConfig(env: Env): RepoConfig {
+	return {
+		model: env.DEFAULT_MODEL ?? DEFAULT_MODEL,
+		mentions: DEFAULT_MENTIONS,
+		permissions: 'write',
+		createWorkflowPR: true,
+	};
+}
+
+// Validates a config file. Keys and limits mirror the action's inputs so settings can move between the two.
+export function parseRepoConfig(env: Env, path: string, source: string): { config: RepoConfig } | { errors: string[] } {
+	const format = path.endsWith('.jsonc') ? 'JSONC' : 'YAML';
+	let raw: unknown;
+	try {
+		raw = format === 'JSONC' ? JSON.parse(stripJsonComments(source)) : parseYaml(source);
+	} catch (error) {
+		return { errors: [`${path} is not valid ${format}: ${error instanceof Error ? error.message : error}`] };
+	}
+
+	const config = defaultRepoConfig(env);
+	// An empty file is a valid way to opt into the defaults
+	if (raw === null || raw === undefined) {
+		return { config };
+	}
+	if (typeof raw !== 'object' || Array.isArray(raw)) {
+		return { errors: [`${path} must be a mapping of settings`] };
+	}
+
+	const errors: string[] = [];
+	const isIntegerInRange = (value: unknown, min: number, max: number): value is number =>
+		Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+	for (const [key, value] of Object.entries(raw)) {
+		switch (key) {
+			case 'version':
+				if (value !== REPO_CONFIG_VERSION) errors.push(`version must be ${REPO_CONFIG_VERSION}`);
+				break;
+			case 'model':
+				if (typeof value === 'string' && /^[^/\s]+\/\S+$/.test(value)) config.model = value;
+				else errors.push('model must be in the format "provider/model"');
+				break;
+			case 'agent':
+				if (typeof value === 'string' && value.trim()) config.agent = value.trim();
+				else errors.push('agent must be a non-empty string');
+				break;
+			case 'mentions': {
+				// Also accepts the action's comma-separated form
+				const list = typeof value === 'string' ? value.split(',') : value;
+				const mentions = Array.isArray(list) && list.every((m) => typeof m === 'string') ? list.map((m) => m.trim()).filter(Boolean) : [];
+				if (mentions.length > 0) config.mentions = mentions;
+				else errors.push('mentions must be a non-empty list of strings');
+				break;
+			}
+			case 'permissions':
+				if (PERMISSIONS.includes(value as RepoConfig['permissions'])) config.permissions = value as RepoConfig['permissions'];
+				else errors.push("permissions must be 'admin', 'write', 'any' or 'CODEOWNERS'");
+				break;
+			// GitHub caps job execution at 6 hours, so longer timeouts are never useful
+			case 'timeout_minutes':
+				if (isIntegerInRange(value, 1, 360)) config.timeoutMinutes = value;
+				else errors.push('timeout_minutes must be an integer between 1 and 360');
+				break;
+			case 'poll_interval_seconds':
+				if (isIntegerInRange(value, 60, 3600)) config.pollIntervalSeconds = value;
+				else errors.push('poll_interval_seconds must be an integer between 60 and 3600');
+				break;
+			case 'max_retries':
+				if (isIntegerInRange(value, 0, 3)) config.maxRetries = value;
+				else errors.push('max_retries must be an integer between 0 and 3');
+				break;
+			case 'concurrency':
+				if (CONCURRENCY_POLICIES.includes(value as NonNullable<RepoConfig['concurrency']>)) {
+					config.concurrency = value as NonNullable<RepoConfig['concurrency']>;
+				} else {
+					errors.push("concurrency must be 'reject', 'cancel' or 'queue'");
+				}
+				break;
+			case 'create_workflow_pr':
+				if (typeof value === 'boolean') config.createWorkflowPR = value;
+				else errors.push('create_workflow_pr must be true or false');
+				break;
+			// Unknown keys are usually typos, which would otherwise be silently ignored
+			default:
+				errors.push(`unknown setting "${key}"`);
+		}
+	}
+
+	return errors.length > 0 ? { errors } : { config };
+}
+
+// Fills the limits the workflow didn't pass from the repo config. The action only sends inputs the workflow
+// sets, so anything still unset falls back to the RepoAgent's defaults.
+export function mergeRunLimits(limits: RunLimits, config: RepoConfig): RunLimits {
+	return {
+		timeoutMs: limits.timeoutMs ?? (config.timeoutMinutes !== undefined ? config.timeoutMinutes * 60 * 1000 : undefined),
+		pollIntervalSeconds: limits.pollIntervalSeconds ?? config.pollIntervalSeconds,
+		maxRetries: limits.maxRetries ?? config.maxRetries,
+		concurrency: limits.concurrency ?? config.concurrency,
+	};
+}
+
+// Reads the repo's config from its default branch, cached per repo in KV. Missing and invalid files
+// are cached too, so repos without one don't cost a GitHub API call per event.
+export async function getRepoConfig(env: Env, octokit: Octokit, owner: string, repo: string): Promise<LoadedRepoConfig> {
+	const cacheKey = `${REPO_CONFIG_KEY_PREFIX}${owner}/${repo}`;
+	const cached = await env.APP_INSTALLATIONS.get<LoadedRepoConfig>(cacheKey, 'json');
+	if (cached) {
+		return cached;
+	}
+
+	let loaded: LoadedRepoConfig = { config: defaultRepoConfig(env), path: null };
+	for (const path of REPO_CONFIG_PATHS) {
+		const source = await getFileContent(octokit, owner, repo, path);
+		if (source === null) continue;
+
+		const result = parseRepoConfig(env, path, source);
+		if ('errors' in result) {
+			console.warn(`[${owner}/${repo}] Ignoring invalid ${path}: ${result.errors.join('; ')}`);
+			loaded = { config: defaultRepoConfig(env), path, errors: result.errors };
+		} else {
+			loaded = { config: result.config, path };
+		}
+		break;
+	}
+
+	await env.APP_INSTALLATIONS.put(cacheKey, JSON.stringify(loaded), { expirationTtl: REPO_CONFIG_CACHE_TTL_SECS });
+	return loaded;
+}
+
+export async function evictRepoConfig(env: Env, repoKey: string): Promise<void> {
+	await env.APP_INSTALLATIONS.delete(`${REPO_CONFIG_KEY_PREFIX}${repoKey}`);
+}
+
+// JSON.parse rejects the comments and trailing commas JSONC allows. Strings are matched first so
+// their contents are left alone.
+function stripJsonComments(source: string): string {
+	return source
+		.replace(/("(?:\\.|[^"\\])*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, (match, str?: string) => str ?? '')
+		.replace(/("(?:\\.|[^"\\])*")|,(\s*[}\]])/g, (match, str?: string, close?: string) => str ?? close ?? '');
+}
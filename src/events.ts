@@ -1,10 +1,12 @@
 import type {
 	IssueCommentEvent,
 	IssuesEvent,
+	PullRequestEvent,
 	PullRequestReviewCommentEvent,
 	PullRequestReviewEvent,
 } from "@octokit/webhooks-types";
-import { DEFAULT_MODEL, type Env, type EventContext, type ReviewCommentContext, type ScheduledEventContext, type WorkflowDispatchContext, type ScheduleEventPayload, type WorkflowDispatchPayload } from "./types";
+import type { Event as OpencodeEvent } from "@opencode-ai/sdk";
+import { DEFAULT_MODEL, type AskEvent, type Env, type EventContext, type ReviewCommentContext, type ScheduledEventContext, type WorkflowDispatchContext, type ScheduleEventPayload, type WorkflowDispatchPayload } from "./types";
 
 export function extractPrompt(body: string, reviewContext?: ReviewCommentContext): string {
 	const trimmed = body.trim();
@@ -30,7 +32,9 @@ export function getReviewCommentContext(
 	};
 }
 
-export function isForkPR(payload: IssueCommentEvent | PullRequestReviewCommentEvent | PullRequestReviewEvent): boolean {
+export function isForkPR(
+	payload: IssueCommentEvent | PullRequestEvent | PullRequestReviewCommentEvent | PullRequestReviewEvent
+): boolean {
 	if ("pull_request" in payload && payload.pull_request) {
 		const pr = payload.pull_request;
 		if ("head" in pr && "base" in pr) {
@@ -42,11 +46,145 @@ export function isForkPR(payload: IssueCommentEvent | PullRequestReviewCommentEv
 	return false;
 }
 
-// Parse issue comment events - no mention filtering, that's handled by the action
-export function parseIssueCommentEvent(payload: IssueCommentEvent): {
+// Default trigger phrases, matching the action's `mentions` input
+export const DEFAULT_MENTIONS = ["/bonk", "@ask-bonk"];
+
+// Subcommands are only recognised when the mention starts a line, e.g. `/bonk review --focus security`.
+// Anything else after a mention is a free-form prompt.
+export const BONK_SUBCOMMANDS = ["cancel", "review"] as const;
+export type BonkSubcommand = (typeof BONK_SUBCOMMANDS)[number];
+
+export interface BonkCommand {
+	// The configured mention that matched, e.g. "/bonk"
+	mention: string;
+	subcommand: BonkSubcommand | null;
+	// Positional arguments and --key value / --key=value / --flag options after the subcommand
+	args: string[];
+	flags: Record<string, string | true>;
+	// Everything after the mention on its line
+	text: string;
+}
+
+// Splits the action's comma-separated `mentions` input
+export function parseMentions(input: string | undefined): string[] {
+	const mentions = (input ?? "")
+		.split(",")
+		.map((mention) => mention.trim())
+		.filter(Boolean);
+	return mentions.length > 0 ? mentions : DEFAULT_MENTIONS;
+}
+
+// Lines that can carry a command: drops fenced code blocks and quoted replies, and blanks out inline code
+function commandLines(body: string): string[] {
+	const lines: string[] = [];
+	let fence: string | null = null;
+	for (const line of body.split(/\r?\n/)) {
+		const fenceMatch = line.match(/^\s*(`{3,}|~{3,})/);
+		if (fence) {
+			// A fence closes with at least as many of the same character
+			if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+				fence = null;
+			}
+			continue;
+		}
+		if (fenceMatch) {
+			fence = fenceMatch[1];
+			continue;
+		}
+		// Quoting a previous command must not re-trigger it
+		if (/^\s*>/.test(line)) {
+			continue;
+		}
+		lines.push(line.replace(/(`+)[^`]*?\1/g, (code) => " ".repeat(code.length)));
+	}
+	return lines;
+}
+
+function tokenize(text: string): string[] {
+	return Array.from(text.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g), (match) => match[1] ?? match[2] ?? match[3]);
+}
+
+function parseArguments(tokens: string[]): Pick<BonkCommand, "args" | "flags"> {
+	const args: string[] = [];
+	const flags: Record<string, string | true> = {};
+	for (let i = 0; i < tokens.length; i++) {
+		const token = tokens[i];
+		if (!token.startsWith("--") || token === "--") {
+			args.push(token);
+			continue;
+		}
+		const option = token.slice(2);
+		const equals = option.indexOf("=");
+		if (equals !== -1) {
+			flags[option.slice(0, equals)] = option.slice(equals + 1);
+		} else if (i + 1 < tokens.length && !tokens[i + 1].startsWith("--")) {
+			flags[option] = tokens[++i];
+		} else {
+			flags[option] = true;
+		}
+	}
+	return { args, flags };
+}
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Finds the first mention outside code and quotes. Returns null if the body doesn't mention Bonk.
+export function parseBonkCommand(body: string, mentions: string[] = DEFAULT_MENTIONS): BonkCommand | null {
+	// Mentions must stand alone: `/bonk` shouldn't match `/bonkers`, `src/bonk` or `@ask-bonk-dev`
+	const patterns = mentions.map((mention) => ({
+		mention,
+		pattern: new RegExp(`(^|[^\\w/@-])${escapeRegExp(mention)}(?![\\w/-])`, "i"),
+	}));
+
+	for (const line of commandLines(body)) {
+		let found: { mention: string; index: number; end: number } | null = null;
+		for (const { mention, pattern } of patterns) {
+			const match = pattern.exec(line);
+			if (!match) continue;
+			const index = match.index + match[1].length;
+			if (!found || index < found.index) {
+				found = { mention, index, end: index + mention.length };
+			}
+		}
+		if (!found) continue;
+
+		const text = line.slice(found.end).trim();
+		const tokens = tokenize(text);
+		const first = tokens[0]?.toLowerCase();
+		const atLineStart = line.slice(0, found.index).trim() === "";
+		const subcommand = atLineStart && BONK_SUBCOMMANDS.find((name) => name === first);
+		if (!subcommand) {
+			return { mention: found.mention, subcommand: null, args: [], flags: {}, text };
+		}
+		return { mention: found.mention, subcommand, ...parseArguments(tokens.slice(1)), text };
+	}
+	return null;
+}
+
+// Prompt the action runs for a subcommand, e.g. `/bonk review src/auth --focus security` reviews the changes
+// to src/auth with an eye on security. Null for free-form prompts, which OpenCode reads from the comment itself.
+export function commandPrompt(command: BonkCommand): string | null {
+	if (command.subcommand !== "review") {
+		return null;
+	}
+	const parts = ["Review the changes in this pull request."];
+	if (command.args.length > 0) {
+		parts.push(`Only review changes to: ${command.args.join(", ")}.`);
+	}
+	if (typeof command.flags.focus === "string") {
+		parts.push(`Focus the review on ${command.flags.focus}.`);
+	}
+	return parts.join(" ");
+}
+
+// Parse issue comment events - `command` matches `mentions`, which should be the repo's own when it has any
+export function parseIssueCommentEvent(payload: IssueCommentEvent, mentions: string[] = DEFAULT_MENTIONS): {
 	context: Omit<EventContext, "env">;
 	prompt: string;
 	triggerCommentId: number;
+	command: BonkCommand | null;
 } | null {
 	if (payload.action !== "created") {
 		return null;
@@ -67,24 +205,22 @@ export function parseIssueCommentEvent(payload: IssueCommentEvent): {
 		},
 		prompt: extractPrompt(payload.comment.body),
 		triggerCommentId: payload.comment.id,
+		command: parseBonkCommand(payload.comment.body, mentions),
 	};
 }
 
-// Parse PR review comment events - no mention filtering, that's handled by the action
+// Parse PR review comment events - `command` uses the default mentions; the action applies the repo's own
 export function parsePRReviewCommentEvent(payload: PullRequestReviewCommentEvent): {
 	context: Omit<EventContext, "env">;
 	prompt: string;
 	triggerCommentId: number;
+	command: BonkCommand | null;
 	reviewContext: ReviewCommentContext;
 } | null {
 	if (payload.action !== "created") {
 		return null;
 	}
 
-	if (isForkPR(payload)) {
-		return null;
-	}
-
 	const reviewContext = getReviewCommentContext(payload);
 
 	return {
@@ -99,19 +235,21 @@ export function parsePRReviewCommentEvent(payload: PullRequestReviewCommentEvent
 			defaultBranch: payload.repository.default_branch,
 			headBranch: payload.pull_request.head.ref,
 			headSha: payload.pull_request.head.sha,
-			isFork: false,
+			isFork: isForkPR(payload),
 		},
 		prompt: extractPrompt(payload.comment.body, reviewContext),
 		triggerCommentId: payload.comment.id,
+		command: parseBonkCommand(payload.comment.body),
 		reviewContext,
 	};
 }
 
-// Parse PR review events - no mention filtering, that's handled by the action
+// Parse PR review events - `command` uses the default mentions; the action applies the repo's own
 export function parsePRReviewEvent(payload: PullRequestReviewEvent): {
 	context: Omit<EventContext, "env">;
 	prompt: string;
 	triggerCommentId: number;
+	command: BonkCommand | null;
 } | null {
 	if (payload.action !== "submitted") {
 		return null;
@@ -121,10 +259,6 @@ export function parsePRReviewEvent(payload: PullRequestReviewEvent): {
 		return null;
 	}
 
-	if (isForkPR(payload)) {
-		return null;
-	}
-
 	return {
 		context: {
 			owner: payload.repository.owner.login,
@@ -137,10 +271,11 @@ export function parsePRReviewEvent(payload: PullRequestReviewEvent): {
 			defaultBranch: payload.repository.default_branch,
 			headBranch: payload.pull_request.head.ref,
 			headSha: payload.pull_request.head.sha,
-			isFork: false,
+			isFork: isForkPR(payload),
 		},
 		prompt: extractPrompt(payload.review.body),
 		triggerCommentId: payload.review.id,
+		command: parseBonkCommand(payload.review.body),
 	};
 }
 
@@ -175,6 +310,50 @@ export function parseIssuesEvent(payload: IssuesEvent): {
 	return null;
 }
 
+// PR actions that trigger an automatic review: new code to look at, or a PR leaving draft
+export const PULL_REQUEST_ACTIONS = ["opened", "synchronize", "ready_for_review", "reopened"] as const;
+
+// Parse pull_request events for automatic reviews. Drafts are skipped until they're marked ready for review.
+// Fork PRs are returned with isFork set so callers can decide how much to trust them.
+export function parsePullRequestEvent(payload: PullRequestEvent): {
+	context: Omit<EventContext, "env">;
+	action: (typeof PULL_REQUEST_ACTIONS)[number];
+	prTitle: string;
+	prBody: string;
+	prAuthor: string;
+} | null {
+	const action = PULL_REQUEST_ACTIONS.find((a) => a === payload.action);
+	if (!action) {
+		console.log(`Unsupported pull_request event action: ${payload.action}`);
+		return null;
+	}
+
+	if (payload.pull_request.draft) {
+		console.log(`Skipping draft PR #${payload.pull_request.number}`);
+		return null;
+	}
+
+	return {
+		context: {
+			owner: payload.repository.owner.login,
+			repo: payload.repository.name,
+			issueNumber: payload.pull_request.number,
+			commentId: 0,
+			actor: payload.sender.login,
+			isPullRequest: true,
+			isPrivate: payload.repository.private,
+			defaultBranch: payload.repository.default_branch,
+			headBranch: payload.pull_request.head.ref,
+			headSha: payload.pull_request.head.sha,
+			isFork: isForkPR(payload),
+		},
+		action,
+		prTitle: payload.pull_request.title,
+		prBody: payload.pull_request.body ?? "",
+		prAuthor: payload.pull_request.user.login,
+	};
+}
+
 export function getModel(env: Env): { providerID: string; modelID: string } {
 	const model = env.DEFAULT_MODEL ?? DEFAULT_MODEL;
 	const [providerID, ...rest] = model.split("/");
@@ -223,14 +402,104 @@ export function formatResponse(
 	return parts.join("\n");
 }
 
-export function generateBranchName(type: "issue" | "pr", issueNumber: number): string {
+export interface TruncatedDiff {
+	diff: string;
+	truncated: boolean;
+}
+
+// Caps each file's section of a unified diff at maxFileLength and the whole diff at maxLength. Cuts
+// are marked in place so readers can tell a partial hunk or a missing file from the real change.
+export function truncateDiff(diff: string, maxFileLength: number, maxLength: number): TruncatedDiff {
+	const files = diff.split(/^(?=diff --git )/m).filter((file) => file.length > 0);
+	const parts: string[] = [];
+	let length = 0;
+	let truncated = false;
+
+	for (const [index, file] of files.entries()) {
+		let part = file;
+		if (part.length > maxFileLength) {
+			// Cut at a line boundary so the kept lines are whole
+			const cut = part.lastIndexOf("\n", maxFileLength - 1) + 1 || maxFileLength;
+			part = `${part.slice(0, cut)}... (truncated ${part.length - cut} characters)\n`;
+			truncated = true;
+		}
+		if (length + part.length > maxLength) {
+			parts.push(`... (${files.length - index} more files not shown)\n`);
+			truncated = true;
+			break;
+		}
+		parts.push(part);
+		length += part.length;
+	}
+
+	return { diff: parts.join(""), truncated };
+}
+
+// Tool output can be whole files; callers get the start of it, and the full output stays in the session
+const TOOL_OUTPUT_MAX_LENGTH = 10_000;
+
+// Per-ask state for turning OpenCode's session events into AskEvents
+export interface AskEventState {
+	sessionId: string;
+	// Text already forwarded per part, for updates that carry the whole text instead of a delta
+	partLengths: Map<string, number>;
+	toolCalls: Set<string>;
+}
+
+// Maps one OpenCode event to the AskEvents it produces. Events from other sessions are dropped; file edits
+// carry no session, but the sandbox only ever runs this one.
+export function toAskEvents(event: OpencodeEvent, state: AskEventState): AskEvent[] {
+	if (event.type === "file.edited") {
+		return [{ event: "file_edited", data: { file: event.properties.file } }];
+	}
+	if (event.type !== "message.part.updated" || event.properties.part.sessionID !== state.sessionId) {
+		return [];
+	}
+
+	const { part, delta } = event.properties;
+	switch (part.type) {
+		case "text":
+		case "reasoning": {
+			const sent = state.partLengths.get(part.id) ?? 0;
+			const text = delta ?? part.text.slice(sent);
+			state.partLengths.set(part.id, part.text.length);
+			return text ? [{ event: "delta", data: { messageId: part.messageID, partId: part.id, kind: part.type, text } }] : [];
+		}
+		case "tool": {
+			const events: AskEvent[] = [];
+			// Pending calls are still streaming their arguments
+			if (part.state.status !== "pending" && !state.toolCalls.has(part.callID)) {
+				state.toolCalls.add(part.callID);
+				events.push({ event: "tool_call", data: { callId: part.callID, tool: part.tool, input: part.state.input } });
+			}
+			if (part.state.status === "completed") {
+				const truncated = part.state.output.length > TOOL_OUTPUT_MAX_LENGTH;
+				const output = truncated ? part.state.output.slice(0, TOOL_OUTPUT_MAX_LENGTH) : part.state.output;
+				events.push({
+					event: "tool_result",
+					data: { callId: part.callID, tool: part.tool, status: "completed", title: part.state.title, output, truncated },
+				});
+			} else if (part.state.status === "error") {
+				events.push({ event: "tool_result", data: { callId: part.callID, tool: part.tool, status: "error", error: part.state.error } });
+			}
+			return events;
+		}
+		case "step-finish":
+			return [{ event: "usage", data: { messageId: part.messageID, cost: part.cost, tokens: part.tokens } }];
+		default:
+			return [];
+	}
+}
+
+// /ask runs have no issue or PR, so their branches only carry the timestamp
+export function generateBranchName(type: "issue" | "pr" | "ask", issueNumber?: number): string {
 	const timestamp = new Date()
 		.toISOString()
 		.replace(/[:-]/g, "")
 		.replace(/\.\d{3}Z/, "")
 		.split("T")
 		.join("");
-	return `bonk/${type}${issueNumber}-${timestamp}`;
+	return `bonk/${type}${issueNumber ?? ""}-${timestamp}`;
 }
 
 export function parseScheduleEvent(payload: ScheduleEventPayload): ScheduledEventContext | null {
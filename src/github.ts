@@ -360,6 +360,23 @@ export async function fileExists(octokit: Octokit, owner: string, repo: string,
 	}
 }
 
+// Returns null only when the file doesn't exist, so callers don't mistake an API failure for a missing file
+export async function getFileContent(octokit: Octokit, owner: string, repo: string, path: string, ref?: string): Promise<string | null> {
+	try {
+		const response = await octokit.repos.getContent({ owner, repo, path, ref });
+		if (Array.isArray(response.data) || response.data.type !== 'file') {
+			return null;
+		}
+		const bytes = Uint8Array.from(atob(response.data.content.replace(/\n/g, '')), (c) => c.charCodeAt(0));
+		return new TextDecoder().decode(bytes);
+	} catch (error) {
+		if ((error as { status?: number }).status === 404) {
+			return null;
+		}
+		throw error;
+	}
+}
+
 export async function getDefaultBranchSha(octokit: Octokit, owner: string, repo: string, branch: string): Promise<string> {
 	const response = await octokit.git.getRef({
 		owner,
@@ -540,6 +557,186 @@ export async function getWorkflowRunStatus(
 	};
 }
 
+// A PR whose head branch lives in another repository. A deleted fork has no head repo and counts as a fork.
+export async function isForkPullRequest(octokit: Octokit, owner: string, repo: string, prNumber: number): Promise<boolean> {
+	const { data } = await octokit.pulls.get({ owner, repo, pull_number: prNumber });
+	return data.head.repo?.full_name !== data.base.repo.full_name;
+}
+
+// Requests cancellation of a workflow run. GitHub returns 409 if the run has already completed.
+export async function cancelWorkflowRun(octokit: Octokit, owner: string, repo: string, runId: number): Promise<void> {
+	await octokit.actions.cancelWorkflowRun({
+		owner,
+		repo,
+		run_id: runId,
+	});
+}
+
+// Re-runs only the failed jobs of a workflow run as a new attempt with the same run ID.
+// GitHub rejects this while the run is still in progress.
+export async function rerunFailedJobs(octokit: Octokit, owner: string, repo: string, runId: number): Promise<void> {
+	await octokit.actions.reRunWorkflowFailedJobs({
+		owner,
+		repo,
+		run_id: runId,
+	});
+}
+
+export interface FailedJobLog {
+	jobName: string;
+	stepName: string | null;
+	log: string;
+}
+
+// Downloads the raw log of the first failed job in the latest attempt of a run.
+// Logs only become available once the job has completed, so this returns null while it is still running.
+export async function getFailedJobLog(octokit: Octokit, owner: string, repo: string, runId: number): Promise<FailedJobLog | null> {
+	const { data } = await octokit.actions.listJobsForWorkflowRun({
+		owner,
+		repo,
+		run_id: runId,
+		filter: 'latest',
+	});
+
+	const job = data.jobs.find((j) => j.conclusion === 'failure');
+	if (!job) {
+		return null;
+	}
+
+	const response = await octokit.actions.downloadJobLogsForWorkflowRun({
+		owner,
+		repo,
+		job_id: job.id,
+	});
+
+	return {
+		jobName: job.name,
+		stepName: job.steps?.find((step) => step.conclusion === 'failure')?.name ?? null,
+		log: String(response.data),
+	};
+}
+
+export interface JobLogDiagnosis {
+	// Which part of the Bonk action failed, e.g. "OIDC token exchange"
+	phase: string | null;
+	classification: string | null;
+	hint: string | null;
+	excerpt: string[];
+}
+
+// Matched against the script each action step echoes at the top of its log group
+const LOG_PHASES: Array<{ phase: string; marker: string }> = [
+	{ phase: 'OIDC token exchange', marker: 'exchange_github_app_token' },
+	{ phase: 'opencode install', marker: 'opencode.ai/install' },
+	{ phase: 'workflow setup', marker: 'script/setup.ts' },
+	{ phase: 'run tracking', marker: 'script/track.ts' },
+	{ phase: '`opencode github run`', marker: 'opencode github run' },
+];
+
+// First match wins, so the more specific failures come first
+const LOG_CLASSIFICATIONS: Array<{ classification: string; pattern: RegExp; hint: string }> = [
+	{
+		classification: 'rate limited',
+		pattern: /rate.?limit|too many requests|\b429\b|overloaded/i,
+		hint: 'The model provider or GitHub is throttling requests. Wait a few minutes and try again.',
+	},
+	{
+		classification: 'provider auth error',
+		pattern: /invalid (x-)?api.?key|incorrect api key|authentication_error|api key (is )?(missing|not set|invalid)|\b401\b|unauthorized/i,
+		hint: "Check that the model provider's API key secret is set on the repository and is still valid.",
+	},
+	{
+		classification: 'OIDC exchange failed',
+		pattern: /failed to exchange oidc token|ACTIONS_ID_TOKEN_REQUEST|id-token/i,
+		hint: 'Make sure the workflow grants `id-token: write` and the Bonk GitHub App is installed on this repository.',
+	},
+	{
+		classification: 'missing permissions',
+		pattern: /resource not accessible by integration|\b403\b|permission denied/i,
+		hint: 'Check the `permissions:` block of the workflow and the permissions granted to the Bonk GitHub App.',
+	},
+	{
+		classification: 'model not found',
+		pattern: /model ?not ?found|unknown model|ProviderModelNotFound/i,
+		hint: 'Check the `model` input of the workflow against the models your provider offers.',
+	},
+	{
+		classification: 'context length exceeded',
+		pattern: /context.?length|context window|prompt is too long|maximum context/i,
+		hint: 'The conversation is too large for the model. Try a narrower request or a model with a larger context window.',
+	},
+	{
+		classification: 'network error',
+		pattern: /ECONNRESET|ETIMEDOUT|ENOTFOUND|could not resolve host|fetch failed|socket hang up/i,
+		hint: 'A network request failed. This is usually transient; try again.',
+	},
+	{
+		classification: 'runner lost',
+		pattern: /lost communication with the server|runner has received a shutdown signal|runner .* did not respond/i,
+		hint: 'The GitHub Actions runner went away mid-job. This is usually transient; try again.',
+	},
+];
+
+// Failures that a re-run can fix. Anything else, like a failing test or a bad API key, fails the same way again.
+const TRANSIENT_CLASSIFICATIONS = ['rate limited', 'network error', 'runner lost'];
+
+export function isTransientFailure(diagnosis: JobLogDiagnosis | null): boolean {
+	return diagnosis?.classification != null && TRANSIENT_CLASSIFICATIONS.includes(diagnosis.classification);
+}
+
+const LOG_EXCERPT_LINES = 30;
+const LOG_LINE_MAX_LENGTH = 300;
+// Each log line is prefixed with an ISO timestamp
+const LOG_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T[\d:.]+Z ?/;
+
+// Tokens GitHub didn't mask (only secrets and ::add-mask:: values are masked), with their replacements.
+// Key/value style matches keep the key so the line stays readable.
+const SECRET_PATTERNS: Array<[RegExp, string]> = [
+	[/\b(gh[pousr]_[A-Za-z0-9]{20,}|github_pat_[A-Za-z0-9_]{20,})\b/g, '[REDACTED]'],
+	[/\bsk-[A-Za-z0-9_-]{16,}/g, '[REDACTED]'],
+	[/\bAKIA[0-9A-Z]{16}\b/g, '[REDACTED]'],
+	[/\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g, '[REDACTED]'],
+	[/\b(bearer|token)(\s+)[A-Za-z0-9._~+/-]{16,}=*/gi, '$1$2[REDACTED]'],
+	[/\b((?:api[_-]?key|secret|password|token)\s*=\s*)[^\s"',]+/gi, '$1[REDACTED]'],
+	[/("[a-z_]*(?:api[_-]?key|secret|password|token)"\s*:\s*")[^"]+/gi, '$1[REDACTED]'],
+];
+
+export function redactSecrets(text: string): string {
+	return SECRET_PATTERNS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+}
+
+// Finds the step group containing the first error and classifies it. Returns an empty excerpt if the log has no errors.
+export function diagnoseJobLog(log: string): JobLogDiagnosis {
+	const lines = log.split(/\r?\n/).map((line) => line.replace(LOG_TIMESTAMP, ''));
+	const errorIndex = lines.findIndex((line) => line.startsWith('##[error]'));
+	if (errorIndex === -1) {
+		return { phase: null, classification: null, hint: null, excerpt: [] };
+	}
+
+	let groupStart = 0;
+	for (let i = errorIndex; i >= 0; i--) {
+		if (lines[i].startsWith('##[group]Run ')) {
+			groupStart = i;
+			break;
+		}
+	}
+
+	const group = lines.slice(groupStart, errorIndex + 1);
+	const groupText = group.join('\n');
+	const phase = LOG_PHASES.find((p) => groupText.includes(p.marker))?.phase ?? null;
+
+	// Errors are usually explained by the output just before them, not the echoed script
+	const endGroup = group.findIndex((line) => line === '##[endgroup]');
+	const output = group.slice(endGroup + 1).filter((line) => line.trim() !== '');
+	const match = LOG_CLASSIFICATIONS.find((c) => c.pattern.test(output.join('\n')));
+
+	const excerpt = output
+		.slice(-LOG_EXCERPT_LINES)
+		.map((line) => redactSecrets(line.length > LOG_LINE_MAX_LENGTH ? `${line.slice(0, LOG_LINE_MAX_LENGTH)}…` : line));
+
+	return { phase, classification: match?.classification ?? null, hint: match?.hint ?? null, excerpt };
+}
+
 // Delete a GitHub App installation. Used to reject installations from orgs not in ALLOWED_ORGS.
 // Requires app-level (JWT) authentication, not installation-level.
 export async function deleteInstallation(env: Env, installationId: number): Promise<void> {
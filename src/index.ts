@@ -1,42 +1,72 @@
 import { Hono } from 'hono';
 import { bearerAuth } from 'hono/bearer-auth';
+import { createMiddleware } from 'hono/factory';
+import { timingSafeEqual } from 'hono/utils/buffer';
 import { ulid } from 'ulid';
-import type { IssueCommentEvent, IssuesEvent, PullRequestReviewCommentEvent } from '@octokit/webhooks-types';
+import type {
+	InstallationEvent,
+	InstallationRepositoriesEvent,
+	InstallationTargetEvent,
+	IssueCommentEvent,
+	IssuesEvent,
+	PullRequestEvent,
+	PullRequestReviewCommentEvent,
+	PullRequestReviewEvent,
+} from '@octokit/webhooks-types';
 import type { Env, AskRequest, TrackWorkflowRequest, FinalizeWorkflowRequest, SetupWorkflowRequest } from './types';
 import {
 	createOctokit,
 	createWebhooks,
 	verifyWebhook,
 	createReaction,
+	createComment,
+	hasWriteAccess,
 	deleteInstallation,
 	type ReactionTarget,
 } from './github';
 import type { ScheduleEventPayload, WorkflowDispatchPayload } from './types';
-import { parseIssueCommentEvent, parseIssuesEvent, parsePRReviewCommentEvent, parseScheduleEvent, parseWorkflowDispatchEvent } from './events';
+import {
+	DEFAULT_MENTIONS,
+	parseIssueCommentEvent,
+	parseIssuesEvent,
+	parsePRReviewCommentEvent,
+	parsePRReviewEvent,
+	parsePullRequestEvent,
+	parseScheduleEvent,
+	parseWorkflowDispatchEvent,
+	type BonkCommand,
+} from './events';
 import { ensureWorkflowFile } from './workflow';
-import { handleGetInstallation, handleExchangeToken, handleExchangeTokenForRepo, handleExchangeTokenWithPAT, validateGitHubOIDCToken, extractRepoFromClaims, getInstallationId } from './oidc';
-import { RepoAgent } from './agent';
-import { runAsk } from './sandbox';
+import { evictRepoConfig, getRepoConfig } from './config';
+import {
+	handleGetInstallation,
+	handleExchangeToken,
+	handleExchangeTokenForRepo,
+	handleExchangeTokenWithPAT,
+	validateGitHubOIDCToken,
+	extractRepoFromClaims,
+	getInstallationId,
+	cacheInstallationId,
+	listCachedInstallations,
+	checkRepoAccess,
+} from './oidc';
+import { RepoAgent, OrgAgent, AskAgent, decodeHistoryCursor, type RunHistoryQuery } from './agent';
+import { askJobs } from './ask';
+import { getAskSession, runAsk } from './sandbox';
 import { getAgentByName } from 'agents';
 import { emitMetric, queryAnalyticsEngine, renderBarChart, eventsPerRepoQuery } from './metrics';
 
 export { Sandbox } from '@cloudflare/sandbox';
-export { RepoAgent };
+export { RepoAgent, OrgAgent, AskAgent };
 
 const GITHUB_REPO_URL = 'https://github.com/ask-bonk/ask-bonk';
 
-function isAllowedOrg(owner: string, env: Env): boolean {
-	const allowed = env.ALLOWED_ORGS ?? [];
-	if (allowed.length === 0) return true;
-	return allowed.map((o) => o.toLowerCase()).includes(owner.toLowerCase());
-}
-
-// User-driven events: triggered by user actions (comments, issue creation)
+// User-driven events: triggered by user actions (comments, issue creation, PR pushes)
 // Repo-driven events: triggered by repository automation (schedule, workflow_dispatch)
-// Meta events: GitHub App lifecycle events (installation)
-const USER_EVENTS = ['issue_comment', 'pull_request_review_comment', 'issues'] as const;
+// Meta events: GitHub App lifecycle events (installation, repository access, account renames)
+const USER_EVENTS = ['issue_comment', 'pull_request_review_comment', 'pull_request_review', 'issues', 'pull_request'] as const;
 const REPO_EVENTS = ['schedule', 'workflow_dispatch'] as const;
-const META_EVENTS = ['installation'] as const;
+const META_EVENTS = ['installation', 'installation_repositories', 'installation_target'] as const;
 const SUPPORTED_EVENTS = [...USER_EVENTS, ...REPO_EVENTS, ...META_EVENTS] as const;
 
 const app = new Hono<{ Bindings: Env }>();
@@ -74,7 +104,7 @@ app.post('/webhooks', async (c) => {
 });
 
 // /ask endpoint - runs OpenCode directly in the sandbox
-// Requires bearer auth with ASK_SECRET. Returns SSE stream.
+// Requires bearer auth with ASK_SECRET. Returns SSE stream, or with ?mode=async an ID to poll and resume.
 // In future, responses may be routed to other destinations (email, Discord, etc)
 const ask = new Hono<{ Bindings: Env }>();
 
@@ -89,6 +119,11 @@ ask.use('*', async (c, next) => {
 });
 
 ask.post('/', async (c) => {
+	const mode = c.req.query('mode');
+	if (mode !== undefined && mode !== 'async') {
+		return c.json({ error: `Invalid mode: ${mode}. Use mode=async, or omit it to stream the response` }, 400);
+	}
+
 	const askId = ulid();
 	let rawBody: Omit<AskRequest, 'id'>;
 	try {
@@ -101,12 +136,30 @@ ask.post('/', async (c) => {
 	if (!rawBody.owner || !rawBody.repo || !rawBody.prompt) {
 		return c.json({ error: 'Missing required fields: owner, repo, prompt' }, 400);
 	}
+	if (rawBody.createPullRequest !== undefined && typeof rawBody.createPullRequest !== 'boolean') {
+		return c.json({ error: 'createPullRequest must be true or false' }, 400);
+	}
 
-	// Build full request with ID
-	const body: AskRequest = { id: askId, ...rawBody };
+	// Build full request with ID. sandboxId is only ever taken from the session record below.
+	const body: AskRequest = { id: askId, ...rawBody, sandboxId: undefined };
 	const repoKey = `${body.owner}/${body.repo}`;
 	const logPrefix = `[${repoKey}][ask:${askId}]`;
 
+	const access = checkRepoAccess(c.env, body.owner, body.repo);
+	if (!access.allowed) {
+		console.warn(`${logPrefix} Ask rejected by ${access.rule}`);
+		return c.json({ error: `${repoKey} is not allowed to use this Bonk instance` }, 403);
+	}
+
+	if (body.sessionId !== undefined) {
+		const session = typeof body.sessionId === 'string' ? await getAskSession(c.env, body.sessionId) : null;
+		// A session belongs to the repo it was started on
+		if (!session || `${session.owner}/${session.repo}`.toLowerCase() !== repoKey.toLowerCase()) {
+			return c.json({ error: `Session ${body.sessionId} not found for ${repoKey}; it may have expired` }, 404);
+		}
+		body.sandboxId = session.sandboxId;
+	}
+
 	// Look up installation ID for this repo (uses cache, falls back to GitHub API)
 	const installationId = await getInstallationId(c.env, body.owner, body.repo);
 	if (!installationId) {
@@ -115,7 +168,18 @@ ask.post('/', async (c) => {
 	}
 
 	try {
-		const stream = await runAsk(c.env, installationId, body);
+		const octokit = await createOctokit(c.env, installationId);
+		const { config, path, errors } = await getRepoConfig(c.env, octokit, body.owner, body.repo);
+		if (errors) {
+			return c.json({ error: `Invalid ${path}: ${errors.join('; ')}` }, 400);
+		}
+
+		if (mode === 'async') {
+			const agent = await getAgentByName(c.env.ASK_AGENT, askId);
+			return c.json(await agent.start(body, installationId, config), 202);
+		}
+
+		const stream = await runAsk(c.env, installationId, body, config);
 		return new Response(stream, {
 			headers: {
 				'Content-Type': 'text/event-stream',
@@ -130,6 +194,8 @@ ask.post('/', async (c) => {
 	}
 });
 
+ask.route('/', askJobs);
+
 app.route('/ask', ask);
 
 // OIDC endpoints for OpenCode GitHub Action token exchange
@@ -152,7 +218,18 @@ auth.get('/get_github_app_installation', async (c) => {
 
 auth.post('/exchange_github_app_token', async (c) => {
 	const authHeader = c.req.header('Authorization') ?? null;
-	const result = await handleExchangeToken(c.env, authHeader);
+	// The body is optional; older versions of the action send none
+	let body: { pr_number?: number } = {};
+	const text = await c.req.text();
+	if (text) {
+		try {
+			body = JSON.parse(text);
+		} catch {
+			return c.json({ error: 'Invalid JSON body' }, 400);
+		}
+	}
+
+	const result = await handleExchangeToken(c.env, authHeader, body);
 
 	if ('error' in result) {
 		return c.json(result, 401);
@@ -199,6 +276,26 @@ app.route('/auth', auth);
 // GitHub API endpoints - called by the GitHub Action for tracking
 const apiGithub = new Hono<{ Bindings: Env }>();
 
+// Returned with a 429 so the action can tell rate limiting apart from other failures
+const RATE_LIMITED_RESPONSE = {
+	error: 'rate_limited',
+	message: 'Too many Bonk requests from this user on this repository. Try again in a minute.',
+} as const;
+
+// Limits are per endpoint and per actor within a repo, so one busy user doesn't block everyone else
+// Bounds what a workflow can store in its RepoAgent through the track request
+const MAX_WORKFLOW_MENTIONS = 10;
+const MAX_MENTION_LENGTH = 50;
+
+function isValidMention(mention: unknown): boolean {
+	return typeof mention === 'string' && mention.trim().length > 0 && mention.length <= MAX_MENTION_LENGTH;
+}
+
+async function isRateLimited(env: Env, endpoint: 'setup' | 'track', repoKey: string, actor: string): Promise<boolean> {
+	const { success } = await env.RATE_LIMITER.limit({ key: `${endpoint}:${repoKey}:${actor}` });
+	return !success;
+}
+
 // POST /api/github/setup - Check if workflow file exists, create PR if not
 apiGithub.post('/setup', async (c) => {
 	const authHeader = c.req.header('Authorization');
@@ -232,6 +329,19 @@ apiGithub.post('/setup', async (c) => {
 
 	const logPrefix = `[${body.owner}/${body.repo}#${body.issue_number}]`;
 
+	if (await isRateLimited(c.env, 'setup', `${body.owner}/${body.repo}`, validation.claims.actor)) {
+		console.warn(`${logPrefix} Setup rate limited for ${validation.claims.actor}`);
+		emitMetric(c.env, {
+			repo: `${body.owner}/${body.repo}`,
+			eventType: 'setup',
+			status: 'skipped',
+			actor: validation.claims.actor,
+			errorCode: 'rate_limited',
+			issueNumber: body.issue_number,
+		});
+		return c.json(RATE_LIMITED_RESPONSE, 429);
+	}
+
 	// Look up installation ID
 	const installationId = await getInstallationId(c.env, body.owner, body.repo);
 	if (!installationId) {
@@ -241,7 +351,8 @@ apiGithub.post('/setup', async (c) => {
 
 	try {
 		const octokit = await createOctokit(c.env, installationId);
-		const result = await ensureWorkflowFile(octokit, body.owner, body.repo, body.issue_number, body.default_branch);
+		const { config, path, errors } = await getRepoConfig(c.env, octokit, body.owner, body.repo);
+		const result = await ensureWorkflowFile(octokit, body.owner, body.repo, body.issue_number, body.default_branch, config);
 
 		console.info(`${logPrefix} Setup result: exists=${result.exists}, prUrl=${result.prUrl ?? 'none'}`);
 		emitMetric(c.env, {
@@ -250,7 +361,8 @@ apiGithub.post('/setup', async (c) => {
 			status: 'success',
 			issueNumber: body.issue_number,
 		});
-		return c.json(result);
+		// Surfaced as warnings in the action log; the run carries on with the defaults
+		return c.json(errors ? { ...result, configErrors: errors.map((error) => `${path}: ${error}`) } : result);
 	} catch (error) {
 		const message = error instanceof Error ? error.message : 'Unknown error';
 		console.error(`${logPrefix} Setup failed:`, message);
@@ -290,6 +402,29 @@ apiGithub.post('/track', async (c) => {
 		return c.json({ error: 'Missing required fields: owner, repo, run_id, run_url, issue_number, created_at' }, 400);
 	}
 
+	// GitHub caps job execution at 6 hours, so longer timeouts are never useful
+	if (body.timeout_minutes !== undefined && !(Number.isInteger(body.timeout_minutes) && body.timeout_minutes >= 1 && body.timeout_minutes <= 360)) {
+		return c.json({ error: 'Invalid timeout_minutes - must be an integer between 1 and 360' }, 400);
+	}
+	if (
+		body.poll_interval_seconds !== undefined &&
+		!(Number.isInteger(body.poll_interval_seconds) && body.poll_interval_seconds >= 60 && body.poll_interval_seconds <= 3600)
+	) {
+		return c.json({ error: 'Invalid poll_interval_seconds - must be an integer between 60 and 3600' }, 400);
+	}
+	if (body.max_retries !== undefined && !(Number.isInteger(body.max_retries) && body.max_retries >= 0 && body.max_retries <= 3)) {
+		return c.json({ error: 'Invalid max_retries - must be an integer between 0 and 3' }, 400);
+	}
+	if (body.concurrency !== undefined && !['reject', 'cancel', 'queue'].includes(body.concurrency)) {
+		return c.json({ error: "Invalid concurrency - must be 'reject', 'cancel' or 'queue'" }, 400);
+	}
+	if (
+		body.mentions !== undefined &&
+		!(Array.isArray(body.mentions) && body.mentions.length <= MAX_WORKFLOW_MENTIONS && body.mentions.every(isValidMention))
+	) {
+		return c.json({ error: `Invalid mentions - must be up to ${MAX_WORKFLOW_MENTIONS} non-empty strings` }, 400);
+	}
+
 	// Verify owner/repo from OIDC claims matches request
 	const { owner: claimsOwner, repo: claimsRepo } = extractRepoFromClaims(validation.claims);
 	if (claimsOwner !== body.owner || claimsRepo !== body.repo) {
@@ -297,6 +432,24 @@ apiGithub.post('/track', async (c) => {
 	}
 
 	const logPrefix = `[${body.owner}/${body.repo}#${body.issue_number}]`;
+	const agent = await getAgentByName<Env, RepoAgent>(c.env.REPO_AGENT, `${body.owner}/${body.repo}`);
+
+	// Re-polls from a queued run were already counted when it first asked to start. The flag alone isn't trusted,
+	// or any run could skip the limit by setting it.
+	const requeued = body.requeue === true && (await agent.isQueued(body.run_id));
+	if (!requeued && (await isRateLimited(c.env, 'track', `${body.owner}/${body.repo}`, validation.claims.actor))) {
+		console.warn(`${logPrefix} Track rate limited for ${validation.claims.actor}, skipping run ${body.run_id}`);
+		emitMetric(c.env, {
+			repo: `${body.owner}/${body.repo}`,
+			eventType: 'track',
+			status: 'skipped',
+			actor: validation.claims.actor,
+			errorCode: 'rate_limited',
+			issueNumber: body.issue_number,
+			runId: body.run_id,
+		});
+		return c.json(RATE_LIMITED_RESPONSE, 429);
+	}
 
 	// Look up installation ID
 	const installationId = await getInstallationId(c.env, body.owner, body.repo);
@@ -306,34 +459,50 @@ apiGithub.post('/track', async (c) => {
 	}
 
 	try {
-		// Create reaction if comment/issue ID provided
-		if (body.comment_id || body.review_comment_id || body.issue_id) {
+		// Start tracking
+		await agent.setInstallationId(installationId);
+		if (body.mentions) {
+			await agent.recordWorkflowMentions(body.mentions);
+		}
+		const result = await agent.trackRun(
+			body.run_id,
+			body.run_url,
+			body.issue_number,
+			{ actor: validation.claims.actor, triggerEvent: validation.claims.event_name },
+			{
+				timeoutMs: body.timeout_minutes ? body.timeout_minutes * 60 * 1000 : undefined,
+				pollIntervalSeconds: body.poll_interval_seconds,
+				maxRetries: body.max_retries,
+				concurrency: body.concurrency,
+			},
+		);
+
+		// Only acknowledge the triggering comment/issue once the run is actually going ahead
+		if (result.decision === 'started' && (body.comment_id || body.review_comment_id || body.review_id || body.issue_id)) {
 			const octokit = await createOctokit(c.env, installationId);
-			const targetId = body.comment_id ?? body.review_comment_id ?? body.issue_id!;
-			const reactionTarget: ReactionTarget = body.comment_id
-				? 'issue_comment'
+			// Review submissions don't support reactions, so the PR itself gets one instead
+			const [targetId, reactionTarget]: [number, ReactionTarget] = body.comment_id
+				? [body.comment_id, 'issue_comment']
 				: body.review_comment_id
-					? 'pull_request_review_comment'
-					: 'issue';
+					? [body.review_comment_id, 'pull_request_review_comment']
+					: body.review_id
+						? [body.issue_number, 'issue']
+						: [body.issue_id!, 'issue'];
 
 			await createReaction(octokit, body.owner, body.repo, targetId, '+1', reactionTarget);
 			console.info(`${logPrefix} Created reaction on ${reactionTarget} ${targetId}`);
 		}
 
-		// Get/create RepoAgent and start tracking
-		const agent = await getAgentByName<Env, RepoAgent>(c.env.REPO_AGENT, `${body.owner}/${body.repo}`);
-		await agent.setInstallationId(installationId);
-		await agent.trackRun(body.run_id, body.run_url, body.issue_number);
-
-		console.info(`${logPrefix} Started tracking run ${body.run_id}`);
+		console.info(`${logPrefix} Track decision for run ${body.run_id}: ${result.decision}`);
 		emitMetric(c.env, {
 			repo: `${body.owner}/${body.repo}`,
 			eventType: 'track',
-			status: 'success',
+			eventSubtype: result.decision,
+			status: result.decision === 'rejected' ? 'skipped' : 'success',
 			issueNumber: body.issue_number,
 			runId: body.run_id,
 		});
-		return c.json({ ok: true });
+		return c.json({ ok: true, ...result });
 	} catch (error) {
 		const message = error instanceof Error ? error.message : 'Unknown error';
 		console.error(`${logPrefix} Track failed:`, message);
@@ -420,6 +589,174 @@ apiGithub.put('/track', async (c) => {
 
 app.route('/api/github', apiGithub);
 
+const MAX_RUNS_PAGE_SIZE = 100;
+
+// Run history API - used by dashboards and on-call scripts
+const apiRuns = new Hono<{ Bindings: Env }>();
+
+// Accepts either the maintainer secret (any repo) or a GitHub Actions OIDC token for the same repo.
+// Org-level routes (no :repo) accept an OIDC token from any repo owned by that org/user.
+const runsAuth = createMiddleware<{ Bindings: Env }>(async (c, next) => {
+	const authHeader = c.req.header('Authorization');
+	if (!authHeader?.startsWith('Bearer ')) {
+		return c.json({ error: 'Missing or invalid Authorization header' }, 401);
+	}
+
+	const token = authHeader.slice(7);
+	const secret = c.env.RUNS_API_SECRET;
+	if (secret && (await timingSafeEqual(token, secret))) {
+		return next();
+	}
+
+	const validation = await validateGitHubOIDCToken(token);
+	if (!validation.valid || !validation.claims) {
+		return c.json({ error: validation.error || 'Invalid OIDC token' }, 401);
+	}
+
+	const owner = c.req.param('owner');
+	const repo = c.req.param('repo');
+	const { owner: claimsOwner, repo: claimsRepo } = extractRepoFromClaims(validation.claims);
+	if (claimsOwner !== owner || (repo !== undefined && claimsRepo !== repo)) {
+		const target = repo !== undefined ? `${owner}/${repo}` : owner;
+		return c.json({ error: `OIDC token is for ${claimsOwner}/${claimsRepo}, not ${target}` }, 403);
+	}
+	return next();
+});
+
+apiRuns.use('/:owner', runsAuth);
+apiRuns.use('/:owner/:repo', runsAuth);
+
+// GET /api/runs/:owner - Live run activity across the org/user, from OrgAgent
+apiRuns.get('/:owner', async (c) => {
+	const owner = c.req.param('owner');
+	try {
+		const agent = await getAgentByName<Env, OrgAgent>(c.env.ORG_AGENT, owner);
+		const summary = await agent.getSummary(c.env.ORG_MAX_CONCURRENT_RUNS ?? null);
+		return c.json(summary);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		console.error(`[${owner}] Org summary query failed:`, message);
+		return c.json({ error: message }, 500);
+	}
+});
+
+// GET /api/runs/:owner/:repo - List tracked and finished runs, newest first
+// Query params: issue, status, since, until (RFC3339), cursor, limit
+apiRuns.get('/:owner/:repo', async (c) => {
+	const { owner, repo } = c.req.param();
+	const { issue, status, since, until, cursor, limit } = c.req.query();
+	const query: RunHistoryQuery = {};
+
+	if (issue !== undefined) {
+		query.issueNumber = parseInt(issue, 10);
+		if (!Number.isInteger(query.issueNumber) || query.issueNumber <= 0) {
+			return c.json({ error: 'Invalid issue parameter' }, 400);
+		}
+	}
+	if (status) {
+		query.status = status;
+	}
+	if (since !== undefined) {
+		query.since = Date.parse(since);
+		if (Number.isNaN(query.since)) {
+			return c.json({ error: 'Invalid since parameter - expected an RFC3339 timestamp' }, 400);
+		}
+	}
+	if (until !== undefined) {
+		query.until = Date.parse(until);
+		if (Number.isNaN(query.until)) {
+			return c.json({ error: 'Invalid until parameter - expected an RFC3339 timestamp' }, 400);
+		}
+	}
+	if (cursor !== undefined) {
+		if (!decodeHistoryCursor(cursor)) {
+			return c.json({ error: 'Invalid cursor parameter' }, 400);
+		}
+		query.cursor = cursor;
+	}
+	if (limit !== undefined) {
+		query.limit = parseInt(limit, 10);
+		if (!Number.isInteger(query.limit) || query.limit <= 0 || query.limit > MAX_RUNS_PAGE_SIZE) {
+			return c.json({ error: `Invalid limit parameter - must be between 1 and ${MAX_RUNS_PAGE_SIZE}` }, 400);
+		}
+	}
+
+	try {
+		const agent = await getAgentByName<Env, RepoAgent>(c.env.REPO_AGENT, `${owner}/${repo}`);
+		const page = await agent.getRunHistory(query);
+		return c.json(page);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		console.error(`[${owner}/${repo}] Run history query failed:`, message);
+		return c.json({ error: message }, 500);
+	}
+});
+
+app.route('/api/runs', apiRuns);
+
+const MAX_DEAD_LETTER_PAGE_SIZE = 100;
+
+// Admin API for webhook deliveries that failed processing
+// Requires bearer auth with ADMIN_SECRET
+const apiAdmin = new Hono<{ Bindings: Env }>();
+
+apiAdmin.use('*', async (c, next) => {
+	const secret = c.env.ADMIN_SECRET;
+	// Empty or missing secret means endpoint is disabled
+	if (!secret) {
+		return c.json({ error: 'Admin API is disabled' }, 403);
+	}
+	const auth = bearerAuth({ token: secret });
+	return auth(c, next);
+});
+
+// GET /api/admin/dead-letters - List failed deliveries, newest first within each page
+// Query params: cursor, limit
+apiAdmin.get('/dead-letters', async (c) => {
+	const { cursor, limit } = c.req.query();
+	const pageSize = limit !== undefined ? parseInt(limit, 10) : MAX_DEAD_LETTER_PAGE_SIZE;
+	if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_DEAD_LETTER_PAGE_SIZE) {
+		return c.json({ error: `Invalid limit parameter (1-${MAX_DEAD_LETTER_PAGE_SIZE})` }, 400);
+	}
+
+	const page = await c.env.APP_INSTALLATIONS.list<DeadLetterSummary>({ prefix: DEAD_LETTER_KEY_PREFIX, cursor, limit: pageSize });
+	// KV lists keys alphabetically, and delivery IDs are random, so order by failure time within the page
+	const deadLetters = page.keys.flatMap((key) => (key.metadata ? [key.metadata] : [])).sort((a, b) => b.failedAt - a.failedAt);
+	return c.json({ deadLetters, nextCursor: page.list_complete ? null : page.cursor });
+});
+
+// GET /api/admin/dead-letters/:id - Full delivery including headers and raw body
+apiAdmin.get('/dead-letters/:id', async (c) => {
+	const deadLetter = await c.env.APP_INSTALLATIONS.get<DeadLetter>(`${DEAD_LETTER_KEY_PREFIX}${c.req.param('id')}`, 'json');
+	if (!deadLetter) {
+		return c.json({ error: 'Dead letter not found' }, 404);
+	}
+	return c.json(deadLetter);
+});
+
+// POST /api/admin/dead-letters/:id/replay - Run the delivery through the webhook handler again
+apiAdmin.post('/dead-letters/:id/replay', async (c) => {
+	const id = c.req.param('id');
+	const key = `${DEAD_LETTER_KEY_PREFIX}${id}`;
+	const deadLetter = await c.env.APP_INSTALLATIONS.get<DeadLetter>(key, 'json');
+	if (!deadLetter) {
+		return c.json({ error: 'Dead letter not found' }, 404);
+	}
+
+	console.info(`Replaying dead letter for delivery ${id} (${deadLetter.event})`);
+	// The stored signature still matches the raw body, so the replay is verified like the original delivery
+	const request = new Request(c.req.url, { method: 'POST', headers: deadLetter.headers, body: deadLetter.body });
+	const response = await handleWebhook(request, c.env);
+	if (!response.ok) {
+		return c.json({ ok: false, status: response.status, error: await response.text() }, 502);
+	}
+
+	await c.env.APP_INSTALLATIONS.delete(key);
+	return c.json({ ok: true });
+});
+
+app.route('/api/admin', apiAdmin);
+
 export default app;
 
 function getWebhookLogContext(event: { name: string; payload: unknown }): string {
@@ -433,8 +770,85 @@ function getWebhookLogContext(event: { name: string; payload: unknown }): string
 	return `${owner}/${repoName} - ${event.name} - #${num}`;
 }
 
+// Repo events carry the repository; installation events only the account
+function getWebhookOwner(payload: unknown): string | null {
+	const { repository, installation, account } = payload as {
+		repository?: { owner?: { login?: string } };
+		installation?: { account?: { login?: string } };
+		account?: { login?: string };
+	};
+	return repository?.owner?.login ?? installation?.account?.login ?? account?.login ?? null;
+}
+
+function getWebhookRepoKey(payload: unknown): string {
+	const repository = (payload as Record<string, unknown>).repository as { owner?: { login?: string }; name?: string } | undefined;
+	return repository?.owner?.login && repository?.name ? `${repository.owner.login}/${repository.name}` : 'unknown/unknown';
+}
+
+// Cheap check for comments that could be a cancel command, before the repo's mentions are known
+const CANCEL_HINT = /\bcancel\b/i;
+
+// Deliveries that failed processing, keyed by delivery ID, kept long enough to fix the bug and replay them
+const DEAD_LETTER_KEY_PREFIX = 'dead-letter:';
+const DEAD_LETTER_TTL_SECS = 14 * 24 * 60 * 60;
+// Headers needed to verify and route the delivery again on replay
+const DEAD_LETTER_HEADERS = [
+	'content-type',
+	'user-agent',
+	'x-github-delivery',
+	'x-github-event',
+	'x-github-hook-id',
+	'x-hub-signature-256',
+];
+
+interface DeadLetter {
+	deliveryId: string;
+	event: string;
+	repo: string;
+	headers: Record<string, string>;
+	body: string;
+	error: string;
+	failedAt: number;
+}
+
+// Stored as KV metadata so listing doesn't need to read every body
+type DeadLetterSummary = Pick<DeadLetter, 'deliveryId' | 'event' | 'repo' | 'error' | 'failedAt'>;
+
+type WebhookEvent = { id: string; name: string; payload: unknown };
+
+async function storeDeadLetter(env: Env, event: WebhookEvent, raw: Request, error: unknown): Promise<void> {
+	try {
+		const headers: Record<string, string> = {};
+		for (const name of DEAD_LETTER_HEADERS) {
+			const value = raw.headers.get(name);
+			if (value) headers[name] = value;
+		}
+
+		const summary: DeadLetterSummary = {
+			deliveryId: event.id,
+			event: event.name,
+			repo: getWebhookRepoKey(event.payload),
+			// KV metadata is capped at 1024 bytes
+			error: (error instanceof Error ? error.message : String(error)).slice(0, 500),
+			failedAt: Date.now(),
+		};
+		const deadLetter: DeadLetter = { ...summary, headers, body: await raw.text() };
+
+		// A replay that fails again overwrites the entry with the latest error
+		await env.APP_INSTALLATIONS.put(`${DEAD_LETTER_KEY_PREFIX}${event.id}`, JSON.stringify(deadLetter), {
+			expirationTtl: DEAD_LETTER_TTL_SECS,
+			metadata: summary,
+		});
+		console.info(`Stored dead letter for delivery ${event.id}`);
+	} catch (storeError) {
+		console.error(`Failed to store dead letter for delivery ${event.id}:`, storeError);
+	}
+}
+
 async function handleWebhook(request: Request, env: Env): Promise<Response> {
 	const webhooks = createWebhooks(env);
+	// verifyWebhook consumes the body; keep a copy so failed deliveries can be dead-lettered verbatim
+	const raw = request.clone();
 	const event = await verifyWebhook(webhooks, request);
 	if (!event) {
 		console.error('Webhook signature verification failed');
@@ -443,11 +857,37 @@ async function handleWebhook(request: Request, env: Env): Promise<Response> {
 
 	console.info(`Webhook: ${getWebhookLogContext(event)}`);
 
+	// GitHub retries and manual "Redeliver" clicks reuse the delivery ID. Processed IDs are kept by the owner's
+	// OrgAgent rather than KV, which would cost a write per webhook (see issue #52).
+	const owner = getWebhookOwner(event.payload);
+	const org = owner ? await getAgentByName<Env, OrgAgent>(env.ORG_AGENT, owner) : null;
+	if (org && !(await org.claimDelivery(event.id))) {
+		console.info(`Duplicate delivery ${event.id}, skipping: ${getWebhookLogContext(event)}`);
+		emitMetric(env, {
+			repo: getWebhookRepoKey(event.payload),
+			eventType: 'webhook',
+			eventSubtype: event.name,
+			status: 'skipped',
+			errorCode: 'duplicate_delivery',
+		});
+		return new Response('OK', { status: 200 });
+	}
+
+	const response = await processWebhook(event, env, raw);
+	// Failed deliveries are forgotten, so GitHub's retries of them still get processed
+	if (org && !response.ok) {
+		await org.releaseDelivery(event.id);
+	}
+	return response;
+}
+
+async function processWebhook(event: WebhookEvent, env: Env, raw: Request): Promise<Response> {
 	// Installation ID caching is handled by getInstallationId() in oidc.ts on cache miss.
 	// This avoids redundant KV writes on every webhook (see issue #52).
+	// Installation lifecycle events update or evict it directly, in handleMetaEvent().
 	const payload = event.payload as Record<string, unknown>;
 	const repository = payload.repository as { owner?: { login?: string }; name?: string } | undefined;
-	const repoKey = repository?.owner?.login && repository?.name ? `${repository.owner.login}/${repository.name}` : 'unknown/unknown';
+	const repoKey = getWebhookRepoKey(payload);
 	const sender = (payload.sender as { login?: string })?.login;
 	const issue = payload.issue as { number?: number } | undefined;
 	const pr = payload.pull_request as { number?: number } | undefined;
@@ -464,10 +904,11 @@ async function handleWebhook(request: Request, env: Env): Promise<Response> {
 			return new Response('OK', { status: 200 });
 		}
 
-		// Check if the repo owner is in the allowed list
+		// Check the repo against ALLOWED_ORGS, ALLOWED_REPOS and DENIED_REPOS
 		const owner = repository?.owner?.login;
-		if (owner && !isAllowedOrg(owner, env)) {
-			console.info(`[${owner}] Org not in allowed list, skipping`);
+		const access = owner ? checkRepoAccess(env, owner, repository?.name) : null;
+		if (access && !access.allowed) {
+			console.info(`[${repoKey}] Rejected by ${access.rule}, skipping`);
 			emitMetric(env, { repo: repoKey, eventType: 'webhook', eventSubtype: event.name, status: 'skipped', actor: sender });
 			return new Response('OK', { status: 200 });
 		}
@@ -510,23 +951,30 @@ async function handleWebhook(request: Request, env: Env): Promise<Response> {
 			isPrivate,
 			isPullRequest,
 		});
+		await storeDeadLetter(env, event, raw, error);
 		return new Response('Internal error', { status: 500 });
 	}
 }
 
-// User-driven events: issue comments, PR review comments, issues
+// User-driven events: issue comments, PR review comments, PR reviews, issues, pull requests
 // Now just logs the event - tracking is done by the action calling /api/github/track
-async function handleUserEvent(eventName: string, payload: unknown, _env: Env): Promise<void> {
+async function handleUserEvent(eventName: string, payload: unknown, env: Env): Promise<void> {
 	switch (eventName) {
 		case 'issue_comment':
-			await handleIssueComment(payload as IssueCommentEvent);
+			await handleIssueComment(payload as IssueCommentEvent, env);
 			break;
 		case 'pull_request_review_comment':
 			await handlePRReviewComment(payload as PullRequestReviewCommentEvent);
 			break;
+		case 'pull_request_review':
+			await handlePRReview(payload as PullRequestReviewEvent);
+			break;
 		case 'issues':
 			await handleIssuesEvent(payload as IssuesEvent);
 			break;
+		case 'pull_request':
+			await handlePullRequestEvent(payload as PullRequestEvent);
+			break;
 	}
 }
 
@@ -543,37 +991,66 @@ async function handleRepoEvent(eventName: string, payload: unknown, _env: Env):
 	}
 }
 
-// Meta events: GitHub App lifecycle events (installation)
-// Handles GitHub App installation lifecycle events (created, deleted)
-// Auto-uninstalls from orgs not in ALLOWED_ORGS
+// Meta events: GitHub App lifecycle events (installation, installation_repositories, installation_target)
+// Keeps the installation ID cache and RepoAgents in step with the repos the app can access, and
+// auto-uninstalls from orgs not in ALLOWED_ORGS
 async function handleMetaEvent(eventName: string, payload: unknown, env: Env): Promise<void> {
-	if (eventName !== 'installation') return;
-
-	const p = payload as {
-		action?: string;
-		installation?: { id?: number; account?: { login?: string } };
-	};
+	switch (eventName) {
+		case 'installation':
+			await handleInstallationEvent(payload as InstallationEvent, env);
+			break;
+		case 'installation_repositories':
+			await handleInstallationRepositoriesEvent(payload as InstallationRepositoriesEvent, env);
+			break;
+		case 'installation_target':
+			await handleInstallationTargetEvent(payload as InstallationTargetEvent, env);
+			break;
+	}
+}
 
-	const installationId = p.installation?.id;
-	const owner = p.installation?.account?.login;
+async function handleInstallationEvent(payload: InstallationEvent, env: Env): Promise<void> {
+	const installationId = payload.installation?.id;
+	const owner = payload.installation?.account?.login;
 	if (!installationId || !owner) return;
 
-	// Log all installation events
-	if (p.action === 'deleted') {
-		console.info(`[${owner}] Installation ${installationId} removed by user`);
-		return;
+	switch (payload.action) {
+		case 'created':
+			await rejectDisallowedInstallation(env, owner, installationId);
+			return;
+		case 'deleted':
+			console.info(`[${owner}] Installation ${installationId} removed by user`);
+			await detachRepos(env, owner, await listInstallationRepos(env, owner, installationId), 'installation deleted');
+			return;
+		case 'suspend':
+			console.info(`[${owner}] Installation ${installationId} suspended`);
+			await detachRepos(env, owner, await listInstallationRepos(env, owner, installationId), 'installation suspended');
+			return;
+		case 'unsuspend':
+			// getInstallationId doesn't cache suspended installations, so the next lookup picks this one up
+			console.info(`[${owner}] Installation ${installationId} unsuspended`);
+			return;
+		case 'new_permissions_accepted': {
+			// Newly granted permissions can make a config file readable that previously wasn't
+			const repos = await listInstallationRepos(env, owner, installationId);
+			for (const repo of repos) {
+				await evictRepoConfig(env, `${owner}/${repo}`);
+			}
+			console.info(`[${owner}] Installation ${installationId} accepted new permissions, evicted ${repos.length} cached config(s)`);
+			return;
+		}
 	}
+}
 
-	if (p.action !== 'created') return;
-
+async function rejectDisallowedInstallation(env: Env, owner: string, installationId: number): Promise<void> {
 	// New installation - check if allowed
-	if (isAllowedOrg(owner, env)) {
-		console.info(`[${owner}] Installation ${installationId} created and allowed`);
+	const access = checkRepoAccess(env, owner);
+	if (access.allowed) {
+		console.info(`[${owner}] Installation ${installationId} created and allowed by ${access.rule}`);
 		return;
 	}
 
-	// Org not in allowed list - delete the installation
-	console.info(`[${owner}] Installation ${installationId} rejected - org not in ALLOWED_ORGS, uninstalling`);
+	// No repo of the account can be allowed - delete the installation
+	console.info(`[${owner}] Installation ${installationId} rejected by ${access.rule}, uninstalling`);
 	try {
 		await deleteInstallation(env, installationId);
 		console.info(`[${owner}] Installation ${installationId} auto-deleted`);
@@ -582,12 +1059,166 @@ async function handleMetaEvent(eventName: string, payload: unknown, env: Env): P
 	}
 }
 
-async function handleIssueComment(payload: IssueCommentEvent): Promise<void> {
-	const parsed = parseIssueCommentEvent(payload);
+async function handleInstallationRepositoriesEvent(payload: InstallationRepositoriesEvent, env: Env): Promise<void> {
+	const installationId = payload.installation?.id;
+	const owner = payload.installation?.account?.login;
+	if (!installationId || !owner) return;
+
+	if (payload.action === 'added') {
+		// Denied repos would only be looked up to be rejected, so they aren't cached
+		for (const repo of payload.repositories_added) {
+			const access = checkRepoAccess(env, owner, repo.name);
+			if (!access.allowed) {
+				console.info(`[${repo.full_name}] Not caching added repo, rejected by ${access.rule}`);
+				continue;
+			}
+			await cacheInstallationId(env, repo.full_name, installationId);
+		}
+		console.info(`[${owner}] Installation ${installationId} added ${payload.repositories_added.length} repo(s)`);
+		return;
+	}
+
+	const repos = payload.repositories_removed.map((repo) => repo.name);
+	console.info(`[${owner}] Installation ${installationId} removed ${repos.length} repo(s)`);
+	await detachRepos(env, owner, repos, 'repository removed from installation');
+}
+
+// An account rename changes the "{owner}/{repo}" key of every cache entry and RepoAgent. Cached IDs move to
+// the new name; agents under the old name can't be renamed, so their tracked runs are dropped.
+async function handleInstallationTargetEvent(payload: InstallationTargetEvent, env: Env): Promise<void> {
+	const installationId = payload.installation?.id;
+	const oldOwner = payload.changes.login?.from;
+	const newOwner = payload.account.login;
+	if (payload.action !== 'renamed' || !installationId || !oldOwner || !newOwner) return;
+
+	console.info(`[${oldOwner}] Installation ${installationId} account renamed to ${newOwner}`);
+	const repos = await listInstallationRepos(env, oldOwner, installationId);
+	for (const repo of repos) {
+		await cacheInstallationId(env, `${newOwner}/${repo}`, installationId);
+	}
+	await detachRepos(env, oldOwner, repos, `account renamed to ${newOwner}`);
+}
+
+// Repos of an installation that have cached state: cached installation IDs, plus repos with runs the
+// owner's OrgAgent knows about (their cache entry may already have expired). Event payloads can't be
+// used for this, as they omit the repo list for installations with access to all repos.
+async function listInstallationRepos(env: Env, owner: string, installationId: number): Promise<string[]> {
+	const cached = await listCachedInstallations(env, owner);
+	const repos = new Set(
+		cached.filter((entry) => entry.installationId === installationId).map((entry) => entry.repoKey.slice(owner.length + 1)),
+	);
+
+	const org = await getAgentByName<Env, OrgAgent>(env.ORG_AGENT, owner);
+	for (const repo of await org.getTrackedRepos()) {
+		repos.add(repo);
+	}
+	return [...repos];
+}
+
+// Evicts the repos' cached installation IDs and configs, and drops the runs their RepoAgents track.
+// Only agents with runs in the OrgAgent are contacted, so detaching a large installation doesn't
+// instantiate an agent per repo.
+async function detachRepos(env: Env, owner: string, repos: string[], reason: string): Promise<void> {
+	const org = await getAgentByName<Env, OrgAgent>(env.ORG_AGENT, owner);
+	const tracked = new Set(await org.getTrackedRepos());
+
+	let dropped = 0;
+	for (const repo of repos) {
+		const repoKey = `${owner}/${repo}`;
+		await env.APP_INSTALLATIONS.delete(repoKey);
+		await evictRepoConfig(env, repoKey);
+		if (tracked.has(repo)) {
+			const agent = await getAgentByName<Env, RepoAgent>(env.REPO_AGENT, repoKey);
+			dropped += await agent.detachInstallation(reason);
+		}
+	}
+	console.info(`[${owner}] Detached ${repos.length} repo(s) (${reason}), dropped ${dropped} tracked run(s)`);
+}
+
+function formatCommandLog(command: BonkCommand | null): string {
+	if (!command) return '';
+	return command.subcommand ? ` (${command.mention} ${command.subcommand})` : ` (${command.mention})`;
+}
+
+async function handleIssueComment(payload: IssueCommentEvent, env: Env): Promise<void> {
+	// The action skips cancels for its workflow's mentions, so the Worker must recognise the same ones. Only a
+	// comment that could be a cancel is worth the lookups.
+	const mentions = CANCEL_HINT.test(payload.comment.body)
+		? await getCancelMentions(env, payload.repository.owner.login, payload.repository.name)
+		: undefined;
+	const parsed = parseIssueCommentEvent(payload, mentions);
 	if (!parsed) return;
 
 	const logPrefix = `[${parsed.context.owner}/${parsed.context.repo}#${parsed.context.issueNumber}]`;
-	console.info(`${logPrefix} Issue comment event from ${parsed.context.actor}`);
+	console.info(`${logPrefix} Issue comment event from ${parsed.context.actor}${formatCommandLog(parsed.command)}`);
+
+	if (parsed.command?.subcommand === 'cancel') {
+		await handleCancelCommand(parsed.context, env);
+	}
+}
+
+// The repo config's mentions (the defaults if it has none or can't be read), plus those the repo's workflows
+// reported when their runs were tracked. A repo whose only workflow uses `mentions: /review` has no bonk.yml
+// entry for it, but any run it could cancel was tracked with it.
+async function getCancelMentions(env: Env, owner: string, repo: string): Promise<string[]> {
+	let configured = DEFAULT_MENTIONS;
+	const installationId = await getInstallationId(env, owner, repo);
+	if (installationId) {
+		try {
+			const octokit = await createOctokit(env, installationId);
+			configured = (await getRepoConfig(env, octokit, owner, repo)).config.mentions;
+		} catch (error) {
+			console.error(`[${owner}/${repo}] Failed to load repo config for mentions:`, error);
+		}
+	}
+
+	try {
+		const agent = await getAgentByName<Env, RepoAgent>(env.REPO_AGENT, `${owner}/${repo}`);
+		return [...configured, ...(await agent.getWorkflowMentions())];
+	} catch (error) {
+		console.error(`[${owner}/${repo}] Failed to load workflow mentions:`, error);
+		return configured;
+	}
+}
+
+// `/bonk cancel` - cancels the issue's in-flight runs. Runs in the Worker because the action
+// can't cancel a run that is already executing on another runner.
+async function handleCancelCommand(context: { owner: string; repo: string; issueNumber: number; actor: string }, env: Env): Promise<void> {
+	const { owner, repo, issueNumber, actor } = context;
+	const logPrefix = `[${owner}/${repo}#${issueNumber}]`;
+
+	const installationId = await getInstallationId(env, owner, repo);
+	if (!installationId) {
+		console.error(`${logPrefix} No GitHub App installation found`);
+		return;
+	}
+
+	const octokit = await createOctokit(env, installationId);
+	if (!(await hasWriteAccess(octokit, owner, repo, actor))) {
+		console.info(`${logPrefix} Ignoring cancel from ${actor} - no write access`);
+		await createComment(octokit, owner, repo, issueNumber, `@${actor} only users with write access can cancel Bonk runs.`);
+		return;
+	}
+
+	const agent = await getAgentByName<Env, RepoAgent>(env.REPO_AGENT, `${owner}/${repo}`);
+	await agent.setInstallationId(installationId);
+	const cancelled = await agent.cancelRunsForIssue(issueNumber, `by @${actor}`);
+
+	const runList = cancelled.map((run) => `- [Run ${run.runId}](${run.runUrl})`).join('\n');
+	const body =
+		cancelled.length === 0
+			? 'There are no Bonk runs in progress for this issue.'
+			: `Cancelled ${cancelled.length} Bonk run${cancelled.length === 1 ? '' : 's'}:\n\n${runList}`;
+	await createComment(octokit, owner, repo, issueNumber, body);
+
+	console.info(`${logPrefix} Cancelled ${cancelled.length} run(s) for ${actor}`);
+	emitMetric(env, {
+		repo: `${owner}/${repo}`,
+		eventType: 'cancel',
+		status: 'success',
+		actor,
+		issueNumber,
+	});
 }
 
 async function handlePRReviewComment(payload: PullRequestReviewCommentEvent): Promise<void> {
@@ -595,7 +1226,15 @@ async function handlePRReviewComment(payload: PullRequestReviewCommentEvent): Pr
 	if (!parsed) return;
 
 	const logPrefix = `[${parsed.context.owner}/${parsed.context.repo}#${parsed.context.issueNumber}]`;
-	console.info(`${logPrefix} PR review comment event from ${parsed.context.actor}`);
+	console.info(`${logPrefix} PR review comment event from ${parsed.context.actor}${formatCommandLog(parsed.command)}`);
+}
+
+async function handlePRReview(payload: PullRequestReviewEvent): Promise<void> {
+	const parsed = parsePRReviewEvent(payload);
+	if (!parsed) return;
+
+	const logPrefix = `[${parsed.context.owner}/${parsed.context.repo}#${parsed.context.issueNumber}]`;
+	console.info(`${logPrefix} PR review event from ${parsed.context.actor}${formatCommandLog(parsed.command)}`);
 }
 
 // Schedule events are handled by the GitHub Action directly - Bonk webhook just logs
@@ -618,6 +1257,15 @@ async function handleIssuesEvent(payload: IssuesEvent): Promise<void> {
 	console.info(`${logPrefix} Issues event (${payload.action}) from ${parsed.context.actor}`);
 }
 
+async function handlePullRequestEvent(payload: PullRequestEvent): Promise<void> {
+	const parsed = parsePullRequestEvent(payload);
+	if (!parsed) return;
+
+	const logPrefix = `[${parsed.context.owner}/${parsed.context.repo}#${parsed.context.issueNumber}]`;
+	const fork = parsed.context.isFork ? ' (fork)' : '';
+	console.info(`${logPrefix} Pull request event (${parsed.action}) from ${parsed.context.actor}${fork}`);
+}
+
 // Handle workflow_dispatch events for manual workflow triggers.
 async function handleWorkflowDispatchEvent(payload: WorkflowDispatchPayload): Promise<void> {
 	const parsed = parseWorkflowDispatchEvent(payload);
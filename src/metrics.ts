@@ -2,7 +2,7 @@ import type { Env } from './types';
 import eventsPerRepoQuery from '../ae_queries/events_per_repo.sql';
 
 // Event types for categorizing metrics
-export type EventType = 'webhook' | 'track' | 'finalize' | 'setup' | 'installation' | 'failure_comment';
+export type EventType = 'webhook' | 'track' | 'finalize' | 'setup' | 'installation' | 'failure_comment' | 'cancel' | 'reconcile';
 
 // Status values for tracking outcomes
 export type EventStatus = 'success' | 'failure' | 'error' | 'skipped' | 'cancelled';
@@ -2,13 +2,17 @@ import { createAppAuth } from '@octokit/auth-app';
 import { Octokit } from '@octokit/rest';
 import { jwtVerify, createRemoteJWKSet } from 'jose';
 import type { Env } from './types';
-import { hasWriteAccess } from './github';
+import { hasWriteAccess, isForkPullRequest } from './github';
 
 // GitHub's OIDC token issuer for Actions
 const GITHUB_ACTIONS_ISSUER = 'https://token.actions.githubusercontent.com';
 
 // TTL for cached installation IDs (30 minutes)
 export const APP_INSTALLATION_CACHE_TTL_SECS = 1800;
+// Runs that exchanged a token for a fork PR. Every later exchange from the same run stays read-only,
+// so code checked out from the fork can't mint itself a write token.
+const FORK_RUN_KEY_PREFIX = 'fork-run:';
+const FORK_RUN_TTL_SECS = 6 * 60 * 60;
 const JWKS = createRemoteJWKSet(new URL(`${GITHUB_ACTIONS_ISSUER}/.well-known/jwks`));
 
 // JWT claims from GitHub Actions OIDC token
@@ -70,6 +74,61 @@ export function extractRepoFromClaims(claims: GitHubActionsJWTClaims): { owner:
 	return { owner, repo };
 }
 
+// PR events run on refs/pull/{number}/merge, so the token itself says which PR they are for. Other events
+// (e.g. comments on a PR) run on a branch and rely on the number the action sends.
+export function prNumberFromClaims(claims: GitHubActionsJWTClaims): number | undefined {
+	const match = /^refs\/pull\/(\d+)\/(?:merge|head)$/.exec(claims.ref ?? '');
+	return match ? parseInt(match[1], 10) : undefined;
+}
+
+// Outcome of checking a repo or account against ALLOWED_ORGS, ALLOWED_REPOS and DENIED_REPOS.
+// `rule` names the entry that decided it, for logs.
+export interface RepoAccess {
+	allowed: boolean;
+	rule: string;
+}
+
+// "*" matches within one path segment; everything else is literal. GitHub logins and repo names are case-insensitive.
+function globMatches(glob: string, value: string): boolean {
+	const source = glob.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*');
+	return new RegExp(`^${source}$`, 'i').test(value);
+}
+
+// Patterns are "owner/repo" globs. A bare owner covers all of its repos.
+// Without `repo`, a deny pattern only matches if it covers the whole account; an allow pattern matches on its owner.
+function matchesRepoPattern(pattern: string, owner: string, repo: string | undefined, kind: 'allow' | 'deny'): boolean {
+	const [ownerGlob, repoGlob = '*'] = pattern.split('/');
+	if (!globMatches(ownerGlob, owner)) return false;
+	if (repo !== undefined) return globMatches(repoGlob, repo);
+	return kind === 'allow' || repoGlob === '*';
+}
+
+// DENIED_REPOS wins over both allowlists. With neither allowlist set, every repo is allowed.
+// Without `repo` the account as a whole is checked, as for installations: it's allowed if any of its
+// repos could be, and each event is then checked against its own repo.
+export function checkRepoAccess(env: Env, owner: string, repo?: string): RepoAccess {
+	const denied = (env.DENIED_REPOS ?? []).find((pattern) => matchesRepoPattern(pattern, owner, repo, 'deny'));
+	if (denied) {
+		return { allowed: false, rule: `DENIED_REPOS "${denied}"` };
+	}
+
+	const allowedOrgs = env.ALLOWED_ORGS ?? [];
+	const allowedRepos = env.ALLOWED_REPOS ?? [];
+	if (allowedOrgs.length === 0 && allowedRepos.length === 0) {
+		return { allowed: true, rule: 'no allowlist configured' };
+	}
+
+	const org = allowedOrgs.find((o) => o.toLowerCase() === owner.toLowerCase());
+	if (org) {
+		return { allowed: true, rule: `ALLOWED_ORGS "${org}"` };
+	}
+	const allowed = allowedRepos.find((pattern) => matchesRepoPattern(pattern, owner, repo, 'allow'));
+	if (allowed) {
+		return { allowed: true, rule: `ALLOWED_REPOS "${allowed}"` };
+	}
+	return { allowed: false, rule: 'not in ALLOWED_ORGS or ALLOWED_REPOS' };
+}
+
 // Gets or looks up the installation ID for a repository
 export async function getInstallationId(env: Env, owner: string, repo: string): Promise<number | null> {
 	const repoKey = `${owner}/${repo}`;
@@ -91,16 +150,55 @@ export async function getInstallationId(env: Env, owner: string, repo: string):
 
 	try {
 		const response = await octokit.apps.getRepoInstallation({ owner, repo });
+		// A suspended installation can't mint tokens, so treat it as not installed (and don't cache it)
+		if (response.data.suspended_at) {
+			return null;
+		}
 		const installationId = response.data.id;
 
 		// Cache for future use
-		await env.APP_INSTALLATIONS.put(repoKey, String(installationId), { expirationTtl: APP_INSTALLATION_CACHE_TTL_SECS });
+		await cacheInstallationId(env, repoKey, installationId);
 		return installationId;
 	} catch {
 		return null;
 	}
 }
 
+// Stored alongside each cached installation ID so listing an owner's repos doesn't need a read per key
+interface InstallationCacheMetadata {
+	installationId: number;
+}
+
+export async function cacheInstallationId(env: Env, repoKey: string, installationId: number): Promise<void> {
+	await env.APP_INSTALLATIONS.put(repoKey, String(installationId), {
+		expirationTtl: APP_INSTALLATION_CACHE_TTL_SECS,
+		metadata: { installationId } satisfies InstallationCacheMetadata,
+	});
+}
+
+// Installation IDs are cached under "{owner}/{repo}", so a prefix listing finds every cached repo of an owner.
+// Other KV entries use a "kind:" prefix and can't match.
+export async function listCachedInstallations(env: Env, owner: string): Promise<Array<{ repoKey: string; installationId: number }>> {
+	const entries: Array<{ repoKey: string; installationId: number }> = [];
+	let cursor: string | undefined;
+	do {
+		const page = await env.APP_INSTALLATIONS.list<InstallationCacheMetadata>({ prefix: `${owner}/`, cursor });
+		for (const key of page.keys) {
+			if (key.metadata) {
+				entries.push({ repoKey: key.name, installationId: key.metadata.installationId });
+				continue;
+			}
+			// Cached before the ID was kept in metadata
+			const cached = await env.APP_INSTALLATIONS.get(key.name);
+			if (cached) {
+				entries.push({ repoKey: key.name, installationId: parseInt(cached, 10) });
+			}
+		}
+		cursor = page.list_complete ? undefined : page.cursor;
+	} while (cursor);
+	return entries;
+}
+
 // Options for scoped installation token generation
 interface ScopedTokenOptions {
 	// Limit token to specific repository names
@@ -167,6 +265,8 @@ export interface GetInstallationResponse {
 
 export interface ExchangeTokenResponse {
 	token: string;
+	// Set for fork PRs: the token can comment and review but not push
+	readOnly?: boolean;
 }
 
 export interface ErrorResponse {
@@ -192,10 +292,12 @@ export async function handleGetInstallation(
 }
 
 // Handler for POST /exchange_github_app_token
-// Exchanges a GitHub Actions OIDC token for a GitHub App installation token
+// Exchanges a GitHub Actions OIDC token for a GitHub App installation token.
+// When the run is for a fork PR (from the token's ref, or pr_number in the body), the token is scoped to read-only contents.
 export async function handleExchangeToken(
 	env: Env,
-	authHeader: string | null
+	authHeader: string | null,
+	body: { pr_number?: number } = {}
 ): Promise<ExchangeTokenResponse | ErrorResponse> {
 	if (!authHeader?.startsWith('Bearer ')) {
 		return { error: 'Missing or invalid Authorization header' };
@@ -212,18 +314,72 @@ export async function handleExchangeToken(
 	// Extract repository info from claims
 	const { owner, repo } = extractRepoFromClaims(validation.claims);
 
+	const access = checkRepoAccess(env, owner, repo);
+	if (!access.allowed) {
+		console.warn(`[${owner}/${repo}] Token exchange rejected by ${access.rule}`);
+		return { error: `${owner}/${repo} is not allowed to use this Bonk instance` };
+	}
+
 	// Get installation ID
 	const installationId = await getInstallationId(env, owner, repo);
 	if (!installationId) {
 		return { error: `GitHub App not installed for ${owner}/${repo}` };
 	}
 
+	if (await isForkRun(env, validation.claims, installationId, body.pr_number)) {
+		// Read the fork's code, comment and suggest changes - never push
+		const token = await generateInstallationToken(env, installationId, {
+			repositoryNames: [repo],
+			permissions: {
+				contents: 'read',
+				pull_requests: 'write', // Review comments and suggestions
+				issues: 'write', // Comments
+				metadata: 'read',
+			},
+		});
+		return { token, readOnly: true };
+	}
+
 	// Generate installation token
 	const token = await generateInstallationToken(env, installationId);
 
 	return { token };
 }
 
+function forkRunKey(claims: GitHubActionsJWTClaims): string {
+	return `${FORK_RUN_KEY_PREFIX}${claims.repository}/${claims.run_id}`;
+}
+
+// Checks whether a run is working on a fork PR, remembering the answer for the rest of the run.
+// Fails closed: if the PR can't be looked up, the run is treated as a fork.
+async function isForkRun(env: Env, claims: GitHubActionsJWTClaims, installationId: number, bodyPrNumber?: number): Promise<boolean> {
+	const key = forkRunKey(claims);
+	if (await env.APP_INSTALLATIONS.get(key)) {
+		return true;
+	}
+	// The signed ref wins over what the client sent
+	const prNumber = prNumberFromClaims(claims) ?? bodyPrNumber;
+	if (!prNumber) {
+		return false;
+	}
+
+	const { owner, repo } = extractRepoFromClaims(claims);
+	let isFork: boolean;
+	try {
+		const octokit = new Octokit({ auth: await generateInstallationToken(env, installationId) });
+		isFork = await isForkPullRequest(octokit, owner, repo, prNumber);
+	} catch (error) {
+		console.error(`[${owner}/${repo}#${prNumber}] Failed to look up PR, treating it as a fork:`, error);
+		isFork = true;
+	}
+
+	if (isFork) {
+		console.info(`[${owner}/${repo}#${prNumber}] Fork PR, issuing read-only token for run ${claims.run_id}`);
+		await env.APP_INSTALLATIONS.put(key, '1', { expirationTtl: FORK_RUN_TTL_SECS });
+	}
+	return isFork;
+}
+
 // Handler for POST /exchange_github_app_token_for_repo
 // Exchanges a GitHub Actions OIDC token for a GitHub App installation token on a DIFFERENT repository.
 // This enables cross-repo operations from GitHub Actions - the caller authenticates with their
@@ -262,6 +418,20 @@ export async function handleExchangeTokenForRepo(
 		};
 	}
 
+	// Both ends must be allowed, so a denied repo's workflow can't reach into an allowed one
+	for (const [owner, repo] of [validation.claims.repository.split('/'), [body.owner, body.repo]]) {
+		const access = checkRepoAccess(env, owner, repo);
+		if (!access.allowed) {
+			console.warn(`[${owner}/${repo}] Cross-repo token exchange from ${validation.claims.repository} rejected by ${access.rule}`);
+			return { error: `${owner}/${repo} is not allowed to use this Bonk instance` };
+		}
+	}
+
+	// Fork PR runs only ever get read-only access to their own repo
+	if (await env.APP_INSTALLATIONS.get(forkRunKey(validation.claims))) {
+		return { error: 'Cross-repo access denied: fork PR runs are read-only' };
+	}
+
 	// Get installation ID for the TARGET repository
 	const installationId = await getInstallationId(env, body.owner, body.repo);
 	if (!installationId) {
@@ -317,6 +487,12 @@ export async function handleExchangeTokenWithPAT(
 		return { error: 'Missing owner or repo in request body' };
 	}
 
+	const access = checkRepoAccess(env, body.owner, body.repo);
+	if (!access.allowed) {
+		console.warn(`[${body.owner}/${body.repo}] PAT token exchange rejected by ${access.rule}`);
+		return { error: `${body.owner}/${body.repo} is not allowed to use this Bonk instance` };
+	}
+
 	// Verify the PAT has write access to the repository
 	const octokit = new Octokit({ auth: pat });
 	try {
@@ -1,7 +1,7 @@
 import type { Sandbox } from "@cloudflare/sandbox";
 import type { AgentNamespace } from "agents";
 import type { Config } from "@opencode-ai/sdk";
-import type { RepoAgent } from "./agent";
+import type { AskAgent, OrgAgent, RepoAgent } from "./agent";
 
 // Default model used across the application when no model is specified
 export const DEFAULT_MODEL = "opencode/claude-opus-4-5";
@@ -10,6 +10,8 @@ export const DEFAULT_MODEL = "opencode/claude-opus-4-5";
 export interface Env {
 	Sandbox: DurableObjectNamespace<Sandbox>;
 	REPO_AGENT: AgentNamespace<RepoAgent>;
+	ORG_AGENT: AgentNamespace<OrgAgent>;
+	ASK_AGENT: AgentNamespace<AskAgent>;
 	APP_INSTALLATIONS: KVNamespace;
 	RATE_LIMITER: RateLimit;
 	// Workers Analytics Engine for metrics
@@ -21,8 +23,17 @@ export interface Env {
 	DEFAULT_MODEL?: string;
 	// Shared secret for /ask endpoint - empty means endpoint is disabled
 	ASK_SECRET?: string;
+	// Max concurrent Bonk runs per org/user across all repos - unset means no cap
+	ORG_MAX_CONCURRENT_RUNS?: number;
 	// Allowed orgs/users for GitHub App installation - JSON array binding
 	ALLOWED_ORGS?: string[];
+	// "owner/repo" globs allowed in addition to ALLOWED_ORGS, and denied regardless of either allowlist
+	ALLOWED_REPOS?: string[];
+	DENIED_REPOS?: string[];
+	// Maintainer bearer secret for /api/runs - empty means only OIDC tokens are accepted
+	RUNS_API_SECRET?: string;
+	// Bearer secret for /api/admin (dead-letter replay) - empty means endpoint is disabled
+	ADMIN_SECRET?: string;
 	// Analytics Engine query API credentials (for /stats endpoint)
 	CLOUDFLARE_ACCOUNT_ID?: string;
 	ANALYTICS_TOKEN?: string;
@@ -40,8 +51,61 @@ export interface AskRequest {
 	model?: string;
 	// Valid opencode.json/jsonc config to pass into the OpenCode session
 	config?: Config;
+	// Commit the session's changes to a new branch and open a PR for them
+	createPullRequest?: boolean;
+	// Continue an earlier session (the `session` event's id) in the same sandbox
+	sessionId?: string;
+	// Sandbox holding sessionId's clone. Set by the Worker from its session record, never by callers.
+	sandboxId?: string;
 }
 
+// SSE events streamed by /ask, as `event: <event>` / `data: <JSON>`. `session`, `response`, `done` and
+// `error` keep the shapes they had before incremental events existed, so clients can ignore the rest.
+export type AskEvent =
+	| { event: "session"; data: { id: string; askId: string } }
+	// Streamed model output; concatenating a part's deltas gives its full text
+	| { event: "delta"; data: { messageId: string; partId: string; kind: "text" | "reasoning"; text: string } }
+	| { event: "tool_call"; data: { callId: string; tool: string; input: Record<string, unknown> } }
+	| {
+			event: "tool_result";
+			data: { callId: string; tool: string; status: "completed" | "error"; title?: string; output?: string; error?: string; truncated?: boolean };
+	  }
+	| { event: "file_edited"; data: { file: string } }
+	// Sent at the end of each model step
+	| { event: "usage"; data: { messageId: string; cost: number; tokens: AskTokenUsage } }
+	// Unified diff of the work tree against HEAD, including untracked files. Only sent if there were changes.
+	| { event: "diff"; data: { diff: string; truncated: boolean } }
+	// pullRequestUrl is only set when the request asked for a PR, and is null if there were no changes to propose
+	// or opening the PR failed, in which case pullRequestError says why
+	| {
+			event: "response";
+			data: { text: string; changedFiles: string[] | null; pullRequestUrl?: string | null; pullRequestError?: string };
+	  }
+	| { event: "done"; data: { success: boolean } }
+	| { event: "error"; data: { message: string; askId: string; sessionId: string } };
+
+export interface AskTokenUsage {
+	input: number;
+	output: number;
+	reasoning: number;
+	cache: { read: number; write: number };
+}
+
+// Per-repo settings from .github/bonk.yml (or .jsonc) on the default branch - see config.ts.
+// Values the workflow passes explicitly (e.g. the action's timeout_minutes) take precedence.
+export interface RepoConfig {
+	model: string;
+	agent?: string;
+	mentions: string[];
+	// Permission an actor needs to trigger Bonk, as in the action's `permissions` input
+	permissions: "admin" | "write" | "any" | "CODEOWNERS";
+	timeoutMinutes?: number;
+	pollIntervalSeconds?: number;
+	maxRetries?: number;
+	concurrency?: "reject" | "cancel" | "queue";
+	// Open a PR adding the workflow file when a repo doesn't have one
+	createWorkflowPR: boolean;
+}
 
 
 // Context passed through event handling
@@ -245,7 +309,19 @@ export interface TrackWorkflowRequest {
 	// For creating reactions - set based on event type
 	comment_id?: number; // For issue_comment events
 	review_comment_id?: number; // For pull_request_review_comment events
+	review_id?: number; // For pull_request_review events (react to the PR, as reviews don't support reactions)
 	issue_id?: number; // For issues events (react to the issue itself)
+	// Per-repo overrides for how long RepoAgent tracks the run before cancelling it, and how often it polls
+	timeout_minutes?: number;
+	poll_interval_seconds?: number;
+	// Opt-in: re-run failed jobs up to this many times before posting a failure comment
+	max_retries?: number;
+	// What to do if the issue already has an active Bonk run: 'reject' (default), 'cancel' or 'queue'
+	concurrency?: 'reject' | 'cancel' | 'queue';
+	// Set when a queued run asks again whether it can start, so it isn't rate limited twice. Ignored unless the run is queued.
+	requeue?: boolean;
+	// The workflow's `mentions` input, so the Worker recognises `cancel` with the same trigger phrases
+	mentions?: string[];
 }
 
 // Request to finalize a tracked workflow run (PUT /api/github/track)
@@ -1,5 +1,5 @@
 import type { Octokit } from "@octokit/rest";
-import { DEFAULT_MODEL } from "./types";
+import type { RepoConfig } from "./types";
 import {
 	createComment,
 	fileExists,
@@ -20,14 +20,16 @@ export interface SetupResult {
 	prNumber?: number;
 }
 
-const BOT_MENTION = "@ask-bonk";
-const BOT_COMMAND = "/bonk";
-
-function generateWorkflowContent(): string {
+// The template's PERMISSIONS sets both the job's `contents` scope and the action's required
+// permission level, so `contents` is pinned to write before the repo's level is filled in
+function generateWorkflowContent(config: RepoConfig): string {
 	return workflowTemplate
-		.replace(/\{\{BOT_MENTION\}\}/g, BOT_MENTION)
-		.replace(/\{\{BOT_COMMAND\}\}/g, BOT_COMMAND)
-		.replace(/\{\{MODEL\}\}/g, DEFAULT_MODEL);
+		.replace(/\{\{NAME\}\}/g, "Bonk")
+		.replace(/\{\{KEY_NAME\}\}/g, "OPENCODE_API_KEY")
+		.replace(/\{\{MODEL\}\}/g, config.model)
+		.replace(/\{\{MENTIONS\}\}/g, config.mentions.join(","))
+		.replace(/contents: \{\{PERMISSIONS\}\}/g, "contents: write")
+		.replace(/\{\{PERMISSIONS\}\}/g, config.permissions);
 }
 
 // Check if workflow file exists, create PR if not
@@ -36,9 +38,17 @@ export async function ensureWorkflowFile(
 	owner: string,
 	repo: string,
 	issueNumber: number,
-	defaultBranch: string
+	defaultBranch: string,
+	config: RepoConfig
 ): Promise<SetupResult> {
 	const logPrefix = `[${owner}/${repo}#${issueNumber}]`;
+
+	// Repos that opt out manage their own workflow files, which may not live at WORKFLOW_FILE_PATH
+	if (!config.createWorkflowPR) {
+		console.info(`${logPrefix} Workflow PR disabled by repo config, skipping check`);
+		return { exists: true };
+	}
+
 	const hasWorkflow = await fileExists(octokit, owner, repo, WORKFLOW_FILE_PATH);
 
 	if (hasWorkflow) {
@@ -47,7 +57,7 @@ export async function ensureWorkflowFile(
 	}
 
 	console.info(`${logPrefix} Workflow file not found, creating PR`);
-	return await createWorkflowPR(octokit, owner, repo, issueNumber, defaultBranch);
+	return await createWorkflowPR(octokit, owner, repo, issueNumber, defaultBranch, config);
 }
 
 async function createWorkflowPR(
@@ -55,7 +65,8 @@ async function createWorkflowPR(
 	owner: string,
 	repo: string,
 	issueNumber: number,
-	defaultBranch: string
+	defaultBranch: string,
+	config: RepoConfig
 ): Promise<SetupResult> {
 	const existingPR = await findOpenPR(octokit, owner, repo, WORKFLOW_BRANCH);
 	if (existingPR) {
@@ -86,7 +97,7 @@ async function createWorkflowPR(
 		}
 	}
 
-	const workflowContent = generateWorkflowContent();
+	const workflowContent = generateWorkflowContent(config);
 	await createOrUpdateFile(
 		octokit,
 		owner,
@@ -99,7 +110,7 @@ async function createWorkflowPR(
 
 	const prBody = `## Summary
 
-This PR adds the Bonk GitHub Action workflow to enable \`@ask-bonk\` / \`/bonk\` mentions in issues and PRs.
+This PR adds the Bonk GitHub Action workflow to enable ${config.mentions.map((mention) => `\`${mention}\``).join(" / ")} mentions in issues and PRs.
 
 ## Setup Required
 